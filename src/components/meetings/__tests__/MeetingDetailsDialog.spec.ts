@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest'
+import { flushPromises, shallowMount } from '@vue/test-utils'
+import { createTestingPinia } from '@pinia/testing'
+import MeetingDetailsDialog from '@/components/meetings/MeetingDetailsDialog.vue'
+import { ErrorType, useMeetingsStore, type ErrorState } from '@/stores/meetings'
+import type { Meeting } from '@/types/meeting'
+import type { User } from '@/types/user'
+
+vi.mock('vue-router', () => ({
+  useRouter: () => ({ push: vi.fn() }),
+}))
+
+const meeting: Meeting = {
+  id: 7,
+  organizer: { id: 1, name: 'Alice', email: 'alice@example.com' } as User,
+  topic: 'Weekly Sync',
+  description: null,
+  start_time: '2025-08-04T02:00:00.000Z',
+  duration: 60,
+  type: 'offline',
+  join_url: null,
+  password: null,
+  host_key: null,
+  location: null,
+  zoom_meeting: null,
+  participants: [],
+  created_at: '2025-08-01T00:00:00.000Z',
+  updated_at: '2025-08-01T00:00:00.000Z',
+}
+
+function mountDialog(open: boolean, fetchError?: ErrorState) {
+  const pinia = createTestingPinia({ createSpy: vi.fn })
+  const store = useMeetingsStore()
+  if (fetchError) {
+    // The real action sets the store error before rethrowing
+    vi.mocked(store.fetchMeeting).mockImplementation(async () => {
+      store.error = fetchError
+      throw new Error(fetchError.message)
+    })
+  } else {
+    vi.mocked(store.fetchMeeting).mockResolvedValue(meeting)
+  }
+
+  const wrapper = shallowMount(MeetingDetailsDialog, {
+    global: {
+      plugins: [pinia],
+      renderStubDefaultSlot: true,
+    },
+    props: {
+      open,
+      meetingId: 7,
+    },
+  })
+  return { wrapper, store }
+}
+
+describe('MeetingDetailsDialog.vue', () => {
+  it('loads the meeting when it is mounted open, as on a direct link', async () => {
+    const { wrapper, store } = mountDialog(true)
+    await flushPromises()
+
+    expect(store.fetchMeeting).toHaveBeenCalledWith(7)
+    expect(wrapper.text()).toContain('Weekly Sync')
+  })
+
+  it('waits until it is opened', async () => {
+    const { wrapper, store } = mountDialog(false)
+    expect(store.fetchMeeting).not.toHaveBeenCalled()
+
+    await wrapper.setProps({ open: true })
+    expect(store.fetchMeeting).toHaveBeenCalledOnce()
+  })
+
+  it('explains a meeting the user may not view', async () => {
+    const { wrapper, store } = mountDialog(true, {
+      type: ErrorType.PERMISSION,
+      message: 'This action is unauthorized.',
+      retryable: false,
+    })
+    await flushPromises()
+
+    expect(wrapper.text()).toContain('You do not have permission to view this meeting.')
+    expect(store.clearError).toHaveBeenCalled()
+  })
+
+  it('explains a meeting that no longer exists', async () => {
+    const { wrapper } = mountDialog(true, {
+      type: ErrorType.NOT_FOUND,
+      message: 'Not found.',
+      retryable: false,
+    })
+    await flushPromises()
+
+    expect(wrapper.text()).toContain('This meeting does not exist or has been deleted.')
+  })
+})
@@ -1,5 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { ref } from 'vue'
+import { createMemoryHistory, createRouter } from 'vue-router'
+import { flushPromises } from '@vue/test-utils'
 import { useMeetingFilters } from '../useMeetingFilters'
 import { setActivePinia, createPinia } from 'pinia'
 import type { Meeting } from '@/types/meeting'
@@ -111,3 +113,218 @@ describe('useMeetingFilters', () => {
     expect(fetchFn).toHaveBeenCalled()
   })
 })
+
+describe('useMeetingFilters with route sync', () => {
+  const meetings = ref<Meeting[]>([])
+
+  function createTestRouter() {
+    const component = { template: '<div />' }
+    return createRouter({
+      history: createMemoryHistory(),
+      routes: [
+        { path: '/meetings/:id(\\d+)?', name: 'meetings', component },
+        { path: '/dashboard', name: 'dashboard', component },
+      ],
+    })
+  }
+
+  async function setup(url: string) {
+    const router = createTestRouter()
+    await router.push(url)
+    const fetchFn = vi.fn().mockResolvedValue(undefined)
+    const filters = useMeetingFilters(meetings, fetchFn, undefined, { router })
+    await flushPromises()
+    return { router, fetchFn, filters }
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('restores filters and page from the query and fetches once', async () => {
+    const { fetchFn, filters } = await setup(
+      '/meetings?search=sync&type=online&location=Room%20A&start_date=2025-01-01&per_page=25&page=3',
+    )
+
+    expect(filters.searchQuery.value).toBe('sync')
+    expect(filters.selectedType.value).toBe('online')
+    expect(filters.selectedLocation.value).toBe('Room A')
+    expect(filters.startDate.value).toBe('2025-01-01')
+    expect(filters.perPage.value).toBe('25')
+    expect(filters.currentPage.value).toBe(3)
+
+    await vi.advanceTimersByTimeAsync(300)
+
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+    expect(fetchFn).toHaveBeenCalledWith({
+      per_page: 25,
+      topic: 'sync',
+      type: 'online',
+      location: 'Room A',
+      start_date: '2025-01-01',
+      page: 3,
+    })
+  })
+
+  it('drops invalid params and keeps the valid ones', async () => {
+    const { router, fetchFn, filters } = await setup(
+      '/meetings?type=webinar&per_page=500&page=two&search=sync&start_date=2025-02-01&end_date=2025-01-01',
+    )
+
+    expect(filters.selectedType.value).toBeUndefined()
+    expect(filters.perPage.value).toBe('10')
+    expect(filters.currentPage.value).toBe(1)
+    expect(filters.startDate.value).toBe('2025-02-01')
+    expect(filters.endDate.value).toBe('')
+    expect(router.currentRoute.value.query).toEqual({ search: 'sync', start_date: '2025-02-01' })
+
+    await vi.advanceTimersByTimeAsync(300)
+
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+    expect(fetchFn).toHaveBeenCalledWith({
+      per_page: 10,
+      topic: 'sync',
+      start_date: '2025-02-01',
+      page: 1,
+    })
+  })
+
+  it('writes filter changes to the query and resets the page', async () => {
+    const { router, fetchFn, filters } = await setup('/meetings?page=2')
+    const pushSpy = vi.spyOn(router, 'push')
+
+    filters.searchQuery.value = 'review'
+    filters.selectedType.value = 'hybrid'
+    await vi.advanceTimersByTimeAsync(300)
+
+    expect(router.currentRoute.value.query).toEqual({ search: 'review', type: 'hybrid' })
+    expect(filters.currentPage.value).toBe(1)
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+    expect(fetchFn).toHaveBeenLastCalledWith({
+      per_page: 10,
+      topic: 'review',
+      type: 'hybrid',
+      page: 1,
+    })
+    // Typing replaces the current entry instead of adding one per keystroke
+    expect(pushSpy).not.toHaveBeenCalled()
+  })
+
+  it('restores the previous page on back navigation', async () => {
+    const { router, fetchFn, filters } = await setup('/meetings?search=sync')
+
+    await filters.goToPage(2)
+    await flushPromises()
+
+    expect(router.currentRoute.value.query).toEqual({ search: 'sync', page: '2' })
+    expect(fetchFn).toHaveBeenLastCalledWith({ per_page: 10, topic: 'sync', page: 2 })
+
+    router.back()
+    await vi.advanceTimersByTimeAsync(0)
+    await flushPromises()
+
+    expect(router.currentRoute.value.query).toEqual({ search: 'sync' })
+    expect(filters.currentPage.value).toBe(1)
+    expect(fetchFn).toHaveBeenCalledTimes(3)
+    expect(fetchFn).toHaveBeenLastCalledWith({ per_page: 10, topic: 'sync', page: 1 })
+  })
+
+  it('does not refetch when only the meeting id changes', async () => {
+    const { router, fetchFn } = await setup('/meetings?page=2')
+
+    await router.push({ name: 'meetings', params: { id: 5 }, query: { page: '2' } })
+    await flushPromises()
+
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps the meeting id and unrelated params when navigating', async () => {
+    const { router, filters } = await setup('/meetings/5?tab=report')
+
+    await filters.goToPage(4)
+
+    expect(router.currentRoute.value.params.id).toBe('5')
+    expect(router.currentRoute.value.query).toEqual({ tab: 'report', page: '4' })
+  })
+
+  it('starts from the default params when the route has no filters', async () => {
+    const router = createTestRouter()
+    await router.push('/meetings/5')
+    const fetchFn = vi.fn().mockResolvedValue(undefined)
+    const filters = useMeetingFilters(meetings, fetchFn, undefined, {
+      router,
+      defaultParams: () => ({ per_page: 10, type: 'hybrid', location: 'Aula' }),
+    })
+    await flushPromises()
+    await vi.advanceTimersByTimeAsync(300)
+
+    expect(filters.selectedType.value).toBe('hybrid')
+    expect(router.currentRoute.value.params.id).toBe('5')
+    expect(router.currentRoute.value.query).toEqual({ type: 'hybrid', location: 'Aula' })
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+    expect(fetchFn).toHaveBeenCalledWith({
+      per_page: 10,
+      type: 'hybrid',
+      location: 'Aula',
+      page: 1,
+    })
+  })
+
+  it('prefers the filters in the route over the default params', async () => {
+    const router = createTestRouter()
+    await router.push('/meetings?type=online')
+    const fetchFn = vi.fn().mockResolvedValue(undefined)
+    const filters = useMeetingFilters(meetings, fetchFn, undefined, {
+      router,
+      defaultParams: () => ({ per_page: 10, type: 'hybrid' }),
+    })
+    await flushPromises()
+
+    expect(filters.selectedType.value).toBe('online')
+    expect(fetchFn).toHaveBeenCalledWith({ per_page: 10, type: 'online', page: 1 })
+  })
+
+  it('applies query params as a new history entry on page 1', async () => {
+    const { router, fetchFn, filters } = await setup('/meetings?search=sync&page=4')
+
+    filters.applyQueryParams({ per_page: 20, type: 'offline', start_date: '2025-03-01' })
+    await flushPromises()
+    await vi.advanceTimersByTimeAsync(300)
+
+    expect(filters.searchQuery.value).toBe('')
+    expect(router.currentRoute.value.query).toEqual({
+      type: 'offline',
+      start_date: '2025-03-01',
+      per_page: '20',
+    })
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+    expect(fetchFn).toHaveBeenLastCalledWith({
+      per_page: 20,
+      type: 'offline',
+      start_date: '2025-03-01',
+      page: 1,
+    })
+
+    router.back()
+    await vi.advanceTimersByTimeAsync(0)
+    await flushPromises()
+
+    expect(filters.searchQuery.value).toBe('sync')
+    expect(filters.currentPage.value).toBe(4)
+  })
+
+  it('ignores routes other than the one it was created on', async () => {
+    const { router, fetchFn, filters } = await setup('/meetings?search=sync')
+
+    await router.push('/dashboard')
+    await flushPromises()
+
+    expect(filters.searchQuery.value).toBe('sync')
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+  })
+})
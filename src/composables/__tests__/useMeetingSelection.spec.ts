@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ref } from 'vue'
+import { useMeetingSelection } from '../useMeetingSelection'
+import type { Meeting } from '@/types/meeting'
+
+function makeMeeting(id: number): Meeting {
+  return { id, topic: `Meeting ${id}` } as Meeting
+}
+
+describe('useMeetingSelection', () => {
+  const firstPage = [makeMeeting(1), makeMeeting(2)]
+  const secondPage = [makeMeeting(3), makeMeeting(4)]
+
+  function setup() {
+    const meetings = ref<Meeting[]>(firstPage)
+    const totalItems = ref(5)
+    const fetchAllMatching = vi
+      .fn()
+      .mockResolvedValue([...firstPage, ...secondPage, makeMeeting(5)])
+    const selection = useMeetingSelection(meetings, totalItems, fetchAllMatching)
+    return { meetings, fetchAllMatching, ...selection }
+  }
+
+  it('keeps selected rows across pages', async () => {
+    const { meetings, toggleMeeting, pageSelection, selectedCount, resolveSelection } = setup()
+
+    toggleMeeting(firstPage[0]!, true)
+    expect(pageSelection.value).toBe('indeterminate')
+
+    meetings.value = secondPage
+    expect(pageSelection.value).toBe(false)
+    toggleMeeting(secondPage[1]!, true)
+
+    expect(selectedCount.value).toBe(2)
+    expect((await resolveSelection()).map((meeting) => meeting.id)).toEqual([1, 4])
+  })
+
+  it('selects and clears the current page only', () => {
+    const { meetings, togglePage, toggleMeeting, isSelected, selectedCount } = setup()
+
+    toggleMeeting(firstPage[0]!, true)
+    meetings.value = secondPage
+    togglePage(true)
+    expect(selectedCount.value).toBe(3)
+
+    togglePage(false)
+    expect(selectedCount.value).toBe(1)
+    expect(isSelected(firstPage[0]!)).toBe(true)
+  })
+
+  it('offers every matching meeting once the page is selected and loads them on demand', async () => {
+    const {
+      togglePage,
+      canSelectAllMatching,
+      selectAllMatching,
+      selectedCount,
+      resolveSelection,
+      fetchAllMatching,
+    } = setup()
+
+    expect(canSelectAllMatching.value).toBe(false)
+    togglePage(true)
+    expect(canSelectAllMatching.value).toBe(true)
+
+    selectAllMatching()
+    expect(canSelectAllMatching.value).toBe(false)
+    expect(selectedCount.value).toBe(5)
+    expect(await resolveSelection()).toHaveLength(5)
+    expect(fetchAllMatching).toHaveBeenCalledOnce()
+  })
+
+  it('narrows a select-all down to the page when a row is unchecked', async () => {
+    const { togglePage, selectAllMatching, toggleMeeting, allMatchingSelected, resolveSelection } =
+      setup()
+
+    togglePage(true)
+    selectAllMatching()
+    toggleMeeting(firstPage[1]!, false)
+
+    expect(allMatchingSelected.value).toBe(false)
+    expect((await resolveSelection()).map((meeting) => meeting.id)).toEqual([1])
+  })
+})
@@ -0,0 +1,66 @@
+import { ref, computed } from 'vue'
+import { toast } from 'vue-sonner'
+import { useMeetingsStore } from '@/stores/meetings'
+import { useAuthStore } from '@/stores/auth'
+import { PERMISSIONS } from '@/constants/permissions'
+import { hasMeetingConflicts, type ConflictCandidate, type MeetingConflicts } from '@/lib/conflicts'
+
+/**
+ * Room and participant conflict check run before a meeting is saved.
+ * Users with the `edit meetings` permission may save over a conflict once they acknowledge it.
+ */
+export function useMeetingConflicts() {
+  const meetingsStore = useMeetingsStore()
+  const authStore = useAuthStore()
+
+  const conflicts = ref<MeetingConflicts | null>(null)
+  const isCheckingConflicts = ref(false)
+  const overrideConflicts = ref(false)
+
+  const canOverrideConflicts = computed(() => authStore.hasPermission(PERMISSIONS.MEETINGS.EDIT))
+  const hasConflicts = computed(() => !!conflicts.value && hasMeetingConflicts(conflicts.value))
+  const isBlockedByConflicts = computed(() => hasConflicts.value && !overrideConflicts.value)
+
+  /**
+   * Resolves to true when the meeting can be saved: no conflicts, or conflicts the user overrode
+   */
+  async function ensureNoConflicts(candidate: ConflictCandidate): Promise<boolean> {
+    // The user already saw these conflicts and chose to save anyway
+    if (hasConflicts.value && overrideConflicts.value && canOverrideConflicts.value) return true
+
+    isCheckingConflicts.value = true
+    try {
+      conflicts.value = await meetingsStore.findConflicts(candidate)
+      overrideConflicts.value = false
+    } catch {
+      // Don't block saving when the calendar can't be reached; the server has the final say
+      conflicts.value = null
+      toast.warning('Could not check for scheduling conflicts.')
+      return true
+    } finally {
+      isCheckingConflicts.value = false
+    }
+
+    // Saving goes ahead like above, but the check didn't cover everyone
+    if (!hasConflicts.value && conflicts.value.unchecked.length > 0) {
+      toast.warning('Could not check whether every participant is free.')
+    }
+    return !hasConflicts.value
+  }
+
+  function resetConflicts() {
+    conflicts.value = null
+    overrideConflicts.value = false
+  }
+
+  return {
+    conflicts,
+    isCheckingConflicts,
+    overrideConflicts,
+    canOverrideConflicts,
+    hasConflicts,
+    isBlockedByConflicts,
+    ensureNoConflicts,
+    resetConflicts,
+  }
+}
@@ -1,22 +1,120 @@
-import { ref, computed, watch } from 'vue'
+import { ref, computed, watch, getCurrentScope, onScopeDispose } from 'vue'
 import debounce from 'lodash-es/debounce'
+import type { LocationQuery, LocationQueryValue, Router } from 'vue-router'
 import type { Meeting } from '@/types/meeting'
 import type { MeetingQueryParams } from '@/stores/meetings'
+import { meetingQuerySchema } from '@/lib/validation/meeting-schemas'
 
 import type { MeetingLocation } from '@/types/meeting'
 
+const DEFAULT_PER_PAGE = '10'
+
+// Query params owned by the filters, anything else in the URL is left alone
+const FILTER_QUERY_KEYS = [
+  'search',
+  'type',
+  'location',
+  'start_date',
+  'end_date',
+  'per_page',
+  'page',
+] as const
+
+type FilterQuery = Partial<Record<(typeof FILTER_QUERY_KEYS)[number], string>>
+
+interface ParsedFilterQuery {
+  page: number
+  per_page: number
+  search?: string
+  type?: string
+  location?: string
+  start_date?: string
+  end_date?: string
+}
+
+export interface MeetingFiltersOptions {
+  // Keeps the filters and current page in the query string of the active route
+  router?: Router
+  // Filters to start from when the route carries none, e.g. the user's default preset
+  defaultParams?: () => MeetingQueryParams | null
+}
+
+function firstValue(value: LocationQueryValue | LocationQueryValue[] | undefined) {
+  const item = Array.isArray(value) ? value[0] : value
+  return item?.trim() || undefined
+}
+
+function toInteger(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+  const number = Number(value)
+  return Number.isInteger(number) ? number : NaN
+}
+
+function pickFilterQuery(query: LocationQuery): FilterQuery {
+  const picked: FilterQuery = {}
+  for (const key of FILTER_QUERY_KEYS) {
+    const value = firstValue(query[key])
+    if (value !== undefined) picked[key] = value
+  }
+  return picked
+}
+
+function omitFilterQuery(query: LocationQuery): LocationQuery {
+  const rest = { ...query }
+  for (const key of FILTER_QUERY_KEYS) delete rest[key]
+  return rest
+}
+
+function isSameQuery(a: FilterQuery, b: FilterQuery): boolean {
+  return FILTER_QUERY_KEYS.every((key) => a[key] === b[key])
+}
+
+/**
+ * Reads the filters from a route query. Invalid params are dropped one by one so a single bad
+ * value in a shared link doesn't reset the others.
+ */
+function parseFilterQuery(query: LocationQuery): ParsedFilterQuery {
+  const raw = pickFilterQuery(query)
+  const candidate: Record<string, string | number | undefined> = {
+    page: toInteger(raw.page),
+    per_page: toInteger(raw.per_page),
+    search: raw.search,
+    type: raw.type,
+    start_date: raw.start_date,
+    end_date: raw.end_date,
+  }
+
+  // The date range refinement only runs once every field is valid, so this can take two passes
+  let result = meetingQuerySchema.safeParse(candidate)
+  for (let pass = 0; pass < 2 && !result.success; pass++) {
+    for (const issue of result.error.issues) {
+      const key = issue.path[0]
+      if (typeof key === 'string') candidate[key] = undefined
+    }
+    result = meetingQuerySchema.safeParse(candidate)
+  }
+
+  const data = result.success ? result.data : { page: 1, per_page: Number(DEFAULT_PER_PAGE) }
+  return { ...data, location: raw.location }
+}
+
 export function useMeetingFilters(
   meetings: { value: Meeting[] },
   fetchMeetingsCallback: (params: MeetingQueryParams) => Promise<void>,
   locations?: { value: MeetingLocation[] },
+  options: MeetingFiltersOptions = {},
 ) {
+  const { router, defaultParams } = options
+  const routeName = router?.currentRoute.value.name
+
   // Search and filter states
   const searchQuery = ref('')
   const selectedType = ref<string | undefined>(undefined)
   const selectedLocation = ref('all')
   const startDate = ref('')
   const endDate = ref('')
-  const perPage = ref('10')
+  const perPage = ref(DEFAULT_PER_PAGE)
+  const currentPage = ref(1)
 
   // Derived state
   const hasActiveFilters = computed(() => {
@@ -85,10 +183,108 @@ export function useMeetingFilters(
     return params
   }
 
+  // Sets every filter from query params, the inverse of buildQueryParams
+  function setFiltersFromParams(params: MeetingQueryParams) {
+    searchQuery.value = params.topic || ''
+    selectedType.value = params.type
+    selectedLocation.value = params.location || 'all'
+    startDate.value = params.start_date || ''
+    endDate.value = params.end_date || ''
+    perPage.value = String(params.per_page || DEFAULT_PER_PAGE)
+  }
+
+  // URL sync
+  let lastFetchKey: string | null = null
+  let isFirstSync = true
+
+  // Skips a fetch for params that are already loaded, e.g. when only the details id changes
+  function fetchPage(page: number) {
+    const params = { ...buildQueryParams(), page }
+    const key = JSON.stringify(params)
+    if (key === lastFetchKey) return Promise.resolve()
+    lastFetchKey = key
+    return fetchMeetingsCallback(params)
+  }
+
+  function toFilterQuery(page: number): FilterQuery {
+    const params = buildQueryParams()
+    const query: FilterQuery = {}
+    if (params.topic) query.search = params.topic
+    if (params.type) query.type = params.type
+    if (params.location) query.location = params.location
+    if (params.start_date) query.start_date = params.start_date
+    if (params.end_date) query.end_date = params.end_date
+    if (perPage.value !== DEFAULT_PER_PAGE) query.per_page = perPage.value
+    if (page > 1) query.page = String(page)
+    return query
+  }
+
+  function isOnFilteredRoute(): boolean {
+    return !!router && router.currentRoute.value.name === routeName
+  }
+
+  async function navigate(page: number, replace: boolean) {
+    if (!router) return
+    const query = { ...omitFilterQuery(router.currentRoute.value.query), ...toFilterQuery(page) }
+    await (replace ? router.replace({ query }) : router.push({ query }))
+  }
+
+  function applyFilterQuery(parsed: ParsedFilterQuery) {
+    searchQuery.value = parsed.search || ''
+    // Keep 'all' from the type select instead of flipping it back to undefined
+    if (parsed.type || selectedType.value !== 'all') selectedType.value = parsed.type
+    selectedLocation.value = parsed.location || 'all'
+    startDate.value = parsed.start_date || ''
+    endDate.value = parsed.end_date || ''
+    perPage.value = String(parsed.per_page)
+    currentPage.value = parsed.page
+  }
+
+  // The route is the source of truth: every load, shared link and back navigation goes through here
+  function syncFromRoute() {
+    if (!router || !isOnFilteredRoute()) return
+    const query = router.currentRoute.value.query
+    const initialParams = isFirstSync ? defaultParams?.() : null
+    isFirstSync = false
+
+    if (initialParams && Object.keys(pickFilterQuery(query)).length === 0) {
+      setFiltersFromParams(initialParams)
+      currentPage.value = 1
+      navigate(1, true)
+      fetchPage(1)
+      return
+    }
+
+    const parsed = parseFilterQuery(query)
+    applyFilterQuery(parsed)
+
+    // Rewrite links with invalid or redundant params to their canonical form
+    if (!isSameQuery(toFilterQuery(parsed.page), pickFilterQuery(query))) {
+      navigate(parsed.page, true)
+    }
+    fetchPage(parsed.page)
+  }
+
   // Watchers and Debounce
   const debouncedSearch = debounce(() => {
-    // Always reset to page 1 when filters change
-    fetchMeetingsCallback({ ...buildQueryParams(), page: 1 })
+    if (!router) {
+      // Always reset to page 1 when filters change
+      currentPage.value = 1
+      fetchMeetingsCallback({ ...buildQueryParams(), page: 1 })
+      return
+    }
+    if (!isOnFilteredRoute()) return
+    // Filters applied from the route are already in the URL
+    if (
+      isSameQuery(
+        toFilterQuery(currentPage.value),
+        pickFilterQuery(router.currentRoute.value.query),
+      )
+    ) {
+      return
+    }
+    // Typing shouldn't add a history entry per keystroke
+    navigate(1, true)
   }, 300)
 
   watch(
@@ -103,15 +299,47 @@ export function useMeetingFilters(
     debouncedSearch,
   )
 
+  if (router) {
+    watch(() => router.currentRoute.value.query, syncFromRoute, { immediate: true })
+  }
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => debouncedSearch.cancel())
+  }
+
+  async function goToPage(page: number, { replace = false } = {}) {
+    if (router) return navigate(page, replace)
+    currentPage.value = page
+    await fetchMeetingsCallback({ ...buildQueryParams(), page })
+  }
+
+  // Applying a preset is a deliberate step, so it gets its own history entry
+  function applyQueryParams(params: MeetingQueryParams) {
+    setFiltersFromParams(params)
+    debouncedSearch.cancel()
+    if (router) {
+      navigate(1, false)
+    } else {
+      currentPage.value = 1
+      fetchMeetingsCallback({ ...buildQueryParams(), page: 1 })
+    }
+  }
+
   function clearFilters() {
     searchQuery.value = ''
     selectedType.value = undefined
     selectedLocation.value = 'all'
     startDate.value = ''
     endDate.value = ''
-    perPage.value = '10'
+    perPage.value = DEFAULT_PER_PAGE
 
-    fetchMeetingsCallback({ ...buildQueryParams(), page: 1 })
+    debouncedSearch.cancel()
+    if (router) {
+      navigate(1, false)
+    } else {
+      currentPage.value = 1
+      fetchMeetingsCallback({ ...buildQueryParams(), page: 1 })
+    }
   }
 
   return {
@@ -121,11 +349,14 @@ export function useMeetingFilters(
     startDate,
     endDate,
     perPage,
+    currentPage,
     hasActiveFilters,
     getActiveFilterCount,
     availableLocations,
     locationsCount,
     buildQueryParams,
+    goToPage,
+    applyQueryParams,
     clearFilters,
   }
 }
@@ -0,0 +1,104 @@
+import { ref, computed, type Ref } from 'vue'
+import type { Meeting } from '@/types/meeting'
+
+/**
+ * Row selection for bulk actions on the paginated meetings list.
+ * Selected rows are kept across pages; selecting every meeting matching the filter loads them
+ * only when an action runs.
+ */
+export function useMeetingSelection(
+  meetings: Ref<Meeting[]>,
+  totalItems: Ref<number>,
+  fetchAllMatching: () => Promise<Meeting[]>,
+) {
+  const selected = ref(new Map<number, Meeting>())
+  const allMatchingSelected = ref(false)
+
+  const selectedCount = computed(() =>
+    allMatchingSelected.value ? totalItems.value : selected.value.size,
+  )
+  const hasSelection = computed(() => selectedCount.value > 0)
+
+  const pageSelection = computed<boolean | 'indeterminate'>(() => {
+    if (meetings.value.length === 0) return false
+    const count = meetings.value.filter((meeting) => isSelected(meeting)).length
+    if (count === 0) return false
+    return count === meetings.value.length ? true : 'indeterminate'
+  })
+
+  // Offered once the whole page is selected and more meetings match the filter
+  const canSelectAllMatching = computed(
+    () =>
+      !allMatchingSelected.value &&
+      pageSelection.value === true &&
+      totalItems.value > selected.value.size,
+  )
+
+  function isSelected(meeting: Meeting): boolean {
+    return allMatchingSelected.value || selected.value.has(meeting.id)
+  }
+
+  function toggleMeeting(meeting: Meeting, value: boolean) {
+    if (allMatchingSelected.value) {
+      // Unchecking a row narrows the selection down to the rest of this page
+      allMatchingSelected.value = false
+      selected.value = new Map(meetings.value.map((item) => [item.id, item]))
+    }
+
+    const next = new Map(selected.value)
+    if (value) {
+      next.set(meeting.id, meeting)
+    } else {
+      next.delete(meeting.id)
+    }
+    selected.value = next
+  }
+
+  function togglePage(value: boolean) {
+    if (allMatchingSelected.value) {
+      clearSelection()
+      if (!value) return
+    }
+
+    const next = new Map(selected.value)
+    meetings.value.forEach((meeting) => {
+      if (value) {
+        next.set(meeting.id, meeting)
+      } else {
+        next.delete(meeting.id)
+      }
+    })
+    selected.value = next
+  }
+
+  function selectAllMatching() {
+    allMatchingSelected.value = true
+  }
+
+  function clearSelection() {
+    allMatchingSelected.value = false
+    selected.value = new Map()
+  }
+
+  /**
+   * The meetings a bulk action applies to
+   */
+  async function resolveSelection(): Promise<Meeting[]> {
+    if (allMatchingSelected.value) return fetchAllMatching()
+    return [...selected.value.values()]
+  }
+
+  return {
+    selectedCount,
+    hasSelection,
+    allMatchingSelected,
+    pageSelection,
+    canSelectAllMatching,
+    isSelected,
+    toggleMeeting,
+    togglePage,
+    selectAllMatching,
+    clearSelection,
+    resolveSelection,
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import type { Meeting } from '@/types/meeting'
+import {
+  getDuplicateStart,
+  getMeetingsForDay,
+  getVisibleRange,
+  layoutDayMeetings,
+  shiftCursor,
+  startOfWeek,
+  toDateParam,
+  toMinutes,
+} from '../calendar'
+
+function makeMeeting(id: number, start: Date, duration = 60): Meeting {
+  return {
+    id,
+    topic: `Meeting ${id}`,
+    start_time: start.toISOString(),
+    duration,
+    type: 'offline',
+  } as Meeting
+}
+
+describe('calendar helpers', () => {
+  it('starts weeks on Monday', () => {
+    // Sunday 2025-08-10
+    const monday = startOfWeek(new Date(2025, 7, 10, 15, 30))
+    expect(toDateParam(monday)).toBe('2025-08-04')
+    expect(monday.getHours()).toBe(0)
+  })
+
+  it('computes a six-week month range', () => {
+    const { start, end } = getVisibleRange('month', new Date(2025, 7, 15))
+    expect(toDateParam(start)).toBe('2025-07-28')
+    expect(toDateParam(end)).toBe('2025-09-07')
+  })
+
+  it('computes week and day ranges', () => {
+    const cursor = new Date(2025, 7, 13, 9)
+    const week = getVisibleRange('week', cursor)
+    expect(toDateParam(week.start)).toBe('2025-08-11')
+    expect(toDateParam(week.end)).toBe('2025-08-17')
+
+    const day = getVisibleRange('day', cursor)
+    expect(toDateParam(day.start)).toBe('2025-08-13')
+    expect(toDateParam(day.end)).toBe('2025-08-13')
+  })
+
+  it('reads time input values as minutes after midnight', () => {
+    expect(toMinutes('08:00')).toBe(480)
+    expect(toMinutes('16:45')).toBe(1005)
+  })
+
+  it('shifts the cursor by one view unit', () => {
+    const cursor = new Date(2025, 0, 31)
+    expect(toDateParam(shiftCursor('month', cursor, 1))).toBe('2025-02-01')
+    expect(toDateParam(shiftCursor('week', cursor, -1))).toBe('2025-01-24')
+    expect(toDateParam(shiftCursor('day', cursor, 1))).toBe('2025-02-01')
+  })
+
+  it('suggests the same weekday and time for a duplicated meeting', () => {
+    // Wednesday 2025-08-13 09:30
+    const start = new Date(2025, 7, 13, 9, 30)
+
+    expect(getDuplicateStart(start, new Date(2025, 7, 14))).toEqual(new Date(2025, 7, 20, 9, 30))
+    // A week later has passed already, so the next Wednesday in the future is suggested
+    expect(getDuplicateStart(start, new Date(2025, 8, 1))).toEqual(new Date(2025, 8, 3, 9, 30))
+  })
+
+  it('returns meetings for a day ordered by start time, including ones spanning midnight', () => {
+    const meetings = [
+      makeMeeting(1, new Date(2025, 7, 13, 14)),
+      makeMeeting(2, new Date(2025, 7, 13, 9)),
+      makeMeeting(3, new Date(2025, 7, 12, 23), 120),
+      makeMeeting(4, new Date(2025, 7, 14, 9)),
+    ]
+
+    const result = getMeetingsForDay(meetings, new Date(2025, 7, 13))
+    expect(result.map((m) => m.id)).toEqual([3, 2, 1])
+  })
+
+  it('places overlapping meetings in separate lanes', () => {
+    const meetings = [
+      makeMeeting(1, new Date(2025, 7, 13, 9), 90),
+      makeMeeting(2, new Date(2025, 7, 13, 10), 60),
+      makeMeeting(3, new Date(2025, 7, 13, 13), 30),
+    ]
+
+    const layout = layoutDayMeetings(meetings, new Date(2025, 7, 13))
+    const byId = Object.fromEntries(layout.map((item) => [item.meeting.id, item]))
+
+    expect(byId[1]).toMatchObject({ lane: 0, lanes: 2 })
+    expect(byId[2]).toMatchObject({ lane: 1, lanes: 2 })
+    expect(byId[3]).toMatchObject({ lane: 0, lanes: 1 })
+  })
+})
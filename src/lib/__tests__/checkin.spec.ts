@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import type { Meeting } from '@/types/meeting'
+import { buildCheckInPosterHtml, getCheckInKey } from '../checkin'
+
+describe('check-in helpers', () => {
+  it('prefers the Zoom uuid and falls back to the meeting uuid', () => {
+    const zoomMeeting = { uuid: 'zoom/uuid==', zoom_meeting: { uuid: 'zoom/uuid==' } }
+    expect(getCheckInKey({ ...zoomMeeting, uuid: 'local' } as unknown as Meeting)).toBe(
+      'zoom/uuid==',
+    )
+    expect(getCheckInKey({ uuid: 'local', zoom_meeting: null } as Meeting)).toBe('local')
+    expect(getCheckInKey({ zoom_meeting: null } as Meeting)).toBeNull()
+  })
+
+  it('escapes meeting details in the poster', () => {
+    const html = buildCheckInPosterHtml({
+      topic: '<script>alert(1)</script>',
+      time: 'Monday',
+      room: '',
+      url: 'https://example.com/checkin/a?b=1&c=2',
+      qrSvg: '<svg></svg>',
+    })
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(html).toContain('https://example.com/checkin/a?b=1&amp;c=2')
+    expect(html).toContain('<svg></svg>')
+  })
+})
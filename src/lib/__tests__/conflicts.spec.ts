@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import type { Meeting } from '@/types/meeting'
+import type { User } from '@/types/user'
+import { findMeetingConflicts, findZoomCapacityConflicts, hasMeetingConflicts } from '../conflicts'
+
+const alice = { id: 1, name: 'Alice' } as User
+const budi = { id: 2, name: 'Budi' } as User
+const citra = { id: 3, name: 'Citra' } as User
+
+function makeMeeting(id: number, start: Date, overrides: Partial<Meeting> = {}): Meeting {
+  return {
+    id,
+    topic: `Meeting ${id}`,
+    start_time: start.toISOString(),
+    duration: 60,
+    type: 'offline',
+    organizer: citra,
+    location: { id: 10, name: 'Ruang Rapat 1' },
+    participants: [],
+    ...overrides,
+  } as Meeting
+}
+
+describe('meeting conflicts', () => {
+  const existing = [
+    makeMeeting(1, new Date(2025, 7, 4, 9, 0), { participants: [alice] }),
+    makeMeeting(2, new Date(2025, 7, 4, 9, 30), { type: 'online', location: null }),
+    makeMeeting(3, new Date(2025, 7, 4, 13, 0), { participants: [budi] }),
+  ]
+
+  it('finds overlapping meetings in the same room', () => {
+    const conflicts = findMeetingConflicts(
+      { starts: [new Date(2025, 7, 4, 9, 30)], duration: 60, location_id: 10, participants: [] },
+      existing,
+    )
+    expect(conflicts.room.map((m) => m.id)).toEqual([1])
+    expect(hasMeetingConflicts(conflicts)).toBe(true)
+  })
+
+  it('treats back-to-back meetings as free', () => {
+    const conflicts = findMeetingConflicts(
+      { starts: [new Date(2025, 7, 4, 10, 0)], duration: 30, location_id: 10, participants: [1] },
+      existing,
+    )
+    // Meeting 1 ends at 10:00; the overlapping online meeting never holds the room
+    expect(hasMeetingConflicts(conflicts)).toBe(false)
+  })
+
+  it('lists participants and organizers who are already booked', () => {
+    const conflicts = findMeetingConflicts(
+      { starts: [new Date(2025, 7, 4, 9, 0)], duration: 120, participants: [1, 3] },
+      existing,
+    )
+    expect(conflicts.room).toEqual([])
+    expect(conflicts.participants.map((c) => c.user.name)).toEqual(['Alice', 'Citra'])
+    expect(conflicts.participants[1]!.meetings.map((m) => m.id)).toEqual([1, 2])
+  })
+
+  it('checks every occurrence of a series and ignores the meeting being edited', () => {
+    const conflicts = findMeetingConflicts(
+      {
+        starts: [new Date(2025, 7, 3, 13, 0), new Date(2025, 7, 4, 13, 0)],
+        duration: 60,
+        location_id: 10,
+        participants: [2],
+        exclude_ids: [1],
+      },
+      existing,
+    )
+    expect(conflicts.room.map((m) => m.id)).toEqual([3])
+    expect(conflicts.participants.map((c) => c.user.id)).toEqual([2])
+  })
+
+  it('reports overlapping meetings without a participant list as unchecked', () => {
+    const meetings = [
+      makeMeeting(1, new Date(2025, 7, 4, 9, 0), { participants: undefined }),
+      makeMeeting(2, new Date(2025, 7, 4, 13, 0), { participants: undefined }),
+    ]
+    const candidate = { starts: [new Date(2025, 7, 4, 9, 30)], duration: 60, participants: [1] }
+
+    const conflicts = findMeetingConflicts(candidate, meetings)
+    expect(conflicts.unchecked.map((m) => m.id)).toEqual([1])
+    expect(hasMeetingConflicts(conflicts)).toBe(false)
+    // Nobody to look for, so nothing is missing
+    expect(findMeetingConflicts({ ...candidate, participants: [] }, meetings).unchecked).toEqual([])
+  })
+})
+
+describe('zoom capacity conflicts', () => {
+  const nine = new Date(2025, 7, 4, 9, 0)
+  const online = (id: number, start: Date, accountId: number | null) =>
+    makeMeeting(id, start, { type: 'online', location: null, zoom_account_id: accountId })
+
+  const candidate = {
+    starts: [nine],
+    duration: 60,
+    participants: [],
+    online: true,
+    zoom_account_ids: [1, 2],
+  }
+
+  it('passes while at least one account is free', () => {
+    expect(findZoomCapacityConflicts(candidate, [online(1, nine, 1)])).toEqual([])
+  })
+
+  it('reports the slot when every account is busy', () => {
+    const meetings = [online(1, nine, 1), online(2, new Date(2025, 7, 4, 9, 30), 2)]
+    const conflicts = findZoomCapacityConflicts(candidate, meetings)
+    expect(conflicts).toHaveLength(1)
+    expect(conflicts[0]!.meetings.map((m) => m.id)).toEqual([1, 2])
+    expect(conflicts[0]!.estimated).toBe(false)
+  })
+
+  it('counts meetings without a known account against the free accounts as an estimate', () => {
+    const meetings = [online(1, nine, 1), online(2, nine, null)]
+    const conflicts = findZoomCapacityConflicts(candidate, meetings)
+    expect(conflicts).toHaveLength(1)
+    expect(conflicts[0]!.estimated).toBe(true)
+  })
+
+  it('does not hold the chosen account busy for meetings without a known account', () => {
+    const meetings = [online(1, nine, null)]
+    expect(findZoomCapacityConflicts({ ...candidate, zoom_account_id: 1 }, meetings)).toEqual([])
+  })
+
+  it('reports a busy chosen account even when another account is free', () => {
+    const conflicts = findZoomCapacityConflicts({ ...candidate, zoom_account_id: 1 }, [
+      online(1, nine, 1),
+    ])
+    expect(conflicts).toHaveLength(1)
+  })
+
+  it('ignores offline meetings, offline candidates and the meeting being edited', () => {
+    const meetings = [online(1, nine, 1), online(2, nine, 2), makeMeeting(3, nine)]
+    expect(findZoomCapacityConflicts({ ...candidate, exclude_ids: [2] }, meetings)).toEqual([])
+    expect(findZoomCapacityConflicts({ ...candidate, online: false }, meetings)).toEqual([])
+  })
+
+  it('skips the check when no accounts are known', () => {
+    const meetings = [online(1, nine, 1)]
+    expect(findZoomCapacityConflicts({ ...candidate, zoom_account_ids: [] }, meetings)).toEqual([])
+  })
+})
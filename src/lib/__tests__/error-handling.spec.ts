@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { isApiError, getErrorMessage } from '../error-handling'
+import { isApiError, getErrorMessage, describeErrorState } from '../error-handling'
 import { AxiosError, AxiosHeaders } from 'axios'
 
 describe('error-handling utilities', () => {
@@ -67,4 +67,19 @@ describe('error-handling utilities', () => {
       expect(getErrorMessage(axiosError)).toBe('Network Error')
     })
   })
+
+  describe('describeErrorState', () => {
+    it('prefers the first validation message over the generic one', () => {
+      expect(
+        describeErrorState({
+          message: 'Validation failed',
+          details: { user_id: ['The user is already a participant.'] },
+        }),
+      ).toBe('The user is already a participant.')
+      expect(describeErrorState({ message: 'Access denied' })).toBe('Access denied')
+      expect(describeErrorState({ message: 'Validation failed', details: {} })).toBe(
+        'Validation failed',
+      )
+    })
+  })
 })
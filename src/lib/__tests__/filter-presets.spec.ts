@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createFilterPreset,
+  parseStoredPresets,
+  resolvePresetParams,
+  resolveRelativeDateRange,
+} from '../filter-presets'
+
+// A Wednesday
+const now = new Date(2025, 0, 15, 14, 30)
+
+describe('resolveRelativeDateRange', () => {
+  it('resolves weeks from Monday to Sunday', () => {
+    expect(resolveRelativeDateRange('this_week', now)).toEqual({
+      start_date: '2025-01-13',
+      end_date: '2025-01-19',
+    })
+    expect(resolveRelativeDateRange('next_week', now)).toEqual({
+      start_date: '2025-01-20',
+      end_date: '2025-01-26',
+    })
+  })
+
+  it('resolves whole months, including across the end of the year', () => {
+    expect(resolveRelativeDateRange('this_month', now)).toEqual({
+      start_date: '2025-01-01',
+      end_date: '2025-01-31',
+    })
+    expect(resolveRelativeDateRange('next_month', new Date(2024, 11, 31))).toEqual({
+      start_date: '2025-01-01',
+      end_date: '2025-01-31',
+    })
+  })
+
+  it('resolves rolling 30 day windows that include today', () => {
+    expect(resolveRelativeDateRange('last_30_days', now)).toEqual({
+      start_date: '2024-12-17',
+      end_date: '2025-01-15',
+    })
+    expect(resolveRelativeDateRange('next_30_days', now)).toEqual({
+      start_date: '2025-01-15',
+      end_date: '2025-02-13',
+    })
+  })
+})
+
+describe('createFilterPreset', () => {
+  const params = {
+    per_page: 20,
+    page: 3,
+    type: 'hybrid',
+    location: 'Aula',
+    start_date: '2025-01-01',
+    end_date: '2025-01-31',
+  }
+
+  it('keeps fixed dates but never the page', () => {
+    const preset = createFilterPreset('  Aula in January ', params)
+
+    expect(preset.name).toBe('Aula in January')
+    expect(preset.params).toEqual({
+      per_page: 20,
+      type: 'hybrid',
+      location: 'Aula',
+      start_date: '2025-01-01',
+      end_date: '2025-01-31',
+    })
+    expect(preset.dateRange).toBeUndefined()
+  })
+
+  it('replaces the dates with a relative range that resolves when applied', () => {
+    const preset = createFilterPreset('My hybrid meetings this month', params, 'this_month')
+
+    expect(preset.params).toEqual({ per_page: 20, type: 'hybrid', location: 'Aula' })
+    expect(resolvePresetParams(preset, new Date(2025, 2, 10))).toEqual({
+      per_page: 20,
+      type: 'hybrid',
+      location: 'Aula',
+      start_date: '2025-03-01',
+      end_date: '2025-03-31',
+    })
+  })
+})
+
+describe('parseStoredPresets', () => {
+  it('returns no presets for missing or corrupt storage', () => {
+    expect(parseStoredPresets(null)).toEqual({ presets: [], defaultId: null })
+    expect(parseStoredPresets('{not json')).toEqual({ presets: [], defaultId: null })
+  })
+
+  it('drops malformed presets and a default that no longer exists', () => {
+    const valid = { id: 'a', name: 'Online', params: { type: 'online' } }
+    const stored = JSON.stringify({
+      presets: [
+        valid,
+        { id: 'b', name: 'No params' },
+        { id: 'c', name: 'Bad range', params: {}, dateRange: 'next_decade' },
+      ],
+      defaultId: 'b',
+    })
+
+    expect(parseStoredPresets(stored)).toEqual({ presets: [valid], defaultId: null })
+  })
+})
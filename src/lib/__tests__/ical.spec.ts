@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import type { Meeting } from '@/types/meeting'
+import {
+  buildMeetingsCalendar,
+  escapeIcalText,
+  foldIcalLine,
+  formatIcalJakarta,
+  formatIcalUtc,
+  getIcalFileName,
+} from '../ical'
+
+const meeting = {
+  id: 42,
+  topic: 'Rapat Koordinasi; Anggaran, 2025',
+  description: 'Agenda:\nReview',
+  start_time: '2025-08-04T02:00:00.000Z',
+  duration: 90,
+  type: 'hybrid',
+  join_url: null,
+  password: null,
+  location: { id: 1, name: 'Ruang Rapat', room_name: 'Lt. 2', address: 'Jl. Merdeka 1' },
+  zoom_meeting: {
+    id: 1,
+    zoom_id: 123,
+    uuid: 'abc',
+    join_url: 'https://zoom.us/j/123',
+    password: 'x1',
+  },
+  organizer: { id: 7, name: 'Budi', email: 'budi@example.com' },
+  updated_at: '2025-08-01T00:00:00.000Z',
+} as unknown as Meeting
+
+describe('iCalendar export', () => {
+  it('formats instants in UTC and Jakarta time independently of the browser timezone', () => {
+    const date = new Date('2025-08-04T20:30:00.000Z')
+    expect(formatIcalUtc(date)).toBe('20250804T203000Z')
+    expect(formatIcalJakarta(date)).toBe('20250805T033000')
+  })
+
+  it('escapes text values', () => {
+    expect(escapeIcalText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne')
+  })
+
+  it('folds long lines to 75 octets', () => {
+    const folded = foldIcalLine(`DESCRIPTION:${'é'.repeat(60)}`)
+    for (const line of folded.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    }
+    expect(folded.replace(/\r\n /g, '')).toBe(`DESCRIPTION:${'é'.repeat(60)}`)
+  })
+
+  it('builds an event with timezone, location and Zoom details', () => {
+    const ics = buildMeetingsCalendar([meeting], 'Test', new Date('2025-08-02T00:00:00.000Z'))
+    const unfolded = ics.replace(/\r\n /g, '')
+
+    expect(ics.endsWith('\r\n')).toBe(true)
+    expect(unfolded).toContain('BEGIN:VTIMEZONE\r\nTZID:Asia/Jakarta')
+    expect(unfolded).toContain('DTSTART;TZID=Asia/Jakarta:20250804T090000')
+    expect(unfolded).toContain('DTEND;TZID=Asia/Jakarta:20250804T103000')
+    expect(unfolded).toContain('DTSTAMP:20250802T000000Z')
+    expect(unfolded).toContain('SUMMARY:Rapat Koordinasi\\; Anggaran\\, 2025')
+    expect(unfolded).toContain('LOCATION:Ruang Rapat - Lt. 2\\, Jl. Merdeka 1')
+    expect(unfolded).toContain('Join Zoom Meeting: https://zoom.us/j/123\\nPassword: x1')
+    expect(unfolded).toContain('UID:meeting-42@bpkad-meet')
+  })
+
+  it('builds file names from topics', () => {
+    expect(getIcalFileName('Rapat Koordinasi #3')).toBe('rapat-koordinasi-3.ics')
+    expect(getIcalFileName('!!!')).toBe('meeting.ics')
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { formatFileSize, MATERIAL_MAX_SIZE, validateMaterialFile } from '../materials'
+
+describe('material helpers', () => {
+  it('accepts the file types allowed by the server regardless of case', () => {
+    expect(validateMaterialFile({ name: 'agenda.pdf', size: 1024 })).toBeNull()
+    expect(validateMaterialFile({ name: 'Slides.PPTX', size: 1024 })).toBeNull()
+    expect(validateMaterialFile({ name: 'photo.jpeg', size: 1024 })).toBeNull()
+  })
+
+  it('rejects other file types and files without an extension', () => {
+    expect(validateMaterialFile({ name: 'script.exe', size: 1024 })).toMatch(/Only pdf/)
+    expect(validateMaterialFile({ name: 'README', size: 1024 })).toMatch(/Only pdf/)
+  })
+
+  it('rejects files over 10 MB', () => {
+    expect(validateMaterialFile({ name: 'big.pdf', size: MATERIAL_MAX_SIZE })).toBeNull()
+    expect(validateMaterialFile({ name: 'big.pdf', size: MATERIAL_MAX_SIZE + 1 })).toBe(
+      'File is larger than 10.0 MB.',
+    )
+  })
+
+  it('formats file sizes', () => {
+    expect(formatFileSize(512)).toBe('512 B')
+    expect(formatFileSize(1536)).toBe('1.5 KB')
+    expect(formatFileSize(5 * 1024 * 1024)).toBe('5.0 MB')
+    expect(formatFileSize(2.5 * 1024 * 1024 * 1024)).toBe('2.5 GB')
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import type { Meeting } from '@/types/meeting'
+import type { Setting } from '@/types/settings'
+import type { User } from '@/types/user'
+import {
+  MEETING_TEMPLATE_GROUP,
+  createPersonalTemplate,
+  parseStoredTemplates,
+  parseTemplateSetting,
+  resolveTopicPattern,
+  templateFromMeeting,
+  toTemplateSettingPayload,
+} from '../meeting-templates'
+
+const alice = { id: 1, name: 'Alice' } as User
+const budi = { id: 2, name: 'Budi' } as User
+
+const meeting = {
+  id: 5,
+  topic: 'Rapat Koordinasi Agustus',
+  description: 'Agenda:\n1. Realisasi anggaran',
+  duration: 90,
+  type: 'hybrid',
+  location: { id: 10, name: 'Aula' },
+  organizer: alice,
+  participants: [alice, budi],
+} as Meeting
+
+function makeSetting(payload: Setting['payload'], id = 3): Setting {
+  return {
+    id,
+    name: 'Setting name',
+    group: MEETING_TEMPLATE_GROUP,
+    payload,
+    created_at: '',
+    updated_at: '',
+  }
+}
+
+describe('meeting templates', () => {
+  it('saves a meeting as a shared template and reads it back from its setting', () => {
+    const data = templateFromMeeting(meeting, {
+      name: ' Monthly coordination ',
+      topic: 'Rapat Koordinasi {month}',
+      scope: 'shared',
+    })
+
+    expect(data).toEqual({
+      name: 'Monthly coordination',
+      scope: 'shared',
+      topic: 'Rapat Koordinasi {month}',
+      description: 'Agenda:\n1. Realisasi anggaran',
+      duration: 90,
+      type: 'hybrid',
+      location_id: 10,
+      participants: [1, 2],
+    })
+    expect(parseTemplateSetting(makeSetting(toTemplateSettingPayload(data)))).toEqual({
+      id: 'setting-3',
+      setting_id: 3,
+      ...data,
+    })
+  })
+
+  it('keeps personal templates out of the settings and reads them back from localStorage', () => {
+    const template = createPersonalTemplate(
+      templateFromMeeting(meeting, { name: 'Mine', topic: 'Rapat', scope: 'personal' }),
+    )
+
+    expect(template.setting_id).toBeNull()
+    expect(parseStoredTemplates(JSON.stringify([template]))).toEqual([template])
+  })
+
+  it('drops corrupt or unusable stored personal templates', () => {
+    expect(parseStoredTemplates(null)).toEqual([])
+    expect(parseStoredTemplates('{not json')).toEqual([])
+    expect(parseStoredTemplates('{"id":"a"}')).toEqual([])
+    expect(
+      parseStoredTemplates(
+        JSON.stringify([
+          { id: 'a', name: 'No type', topic: 'A', duration: 30 },
+          { name: 'No id', topic: 'B', type: 'online', duration: 30 },
+        ]),
+      ),
+    ).toEqual([])
+  })
+
+  it('leaves out participants when asked and never keeps a room for online meetings', () => {
+    const data = templateFromMeeting(
+      { ...meeting, type: 'online' },
+      { name: 'Sync', topic: 'Sync', scope: 'shared' },
+      false,
+    )
+
+    expect(data.location_id).toBeNull()
+    expect(data.participants).toEqual([])
+  })
+
+  it('skips unusable settings and cleans up hand-edited payloads', () => {
+    expect(parseTemplateSetting(makeSetting({ topic: 'No type', duration: 60 }))).toBeNull()
+    expect(
+      parseTemplateSetting(makeSetting({ topic: '', type: 'online', duration: 60 })),
+    ).toBeNull()
+
+    const template = parseTemplateSetting(
+      makeSetting({
+        topic: 'Weekly',
+        type: 'offline',
+        duration: '30',
+        location_id: '12',
+        participants: [4, 'x', '5'],
+        scope: 'personal',
+      }),
+    )
+    expect(template).toMatchObject({
+      name: 'Setting name',
+      scope: 'shared', // Everything in the settings group is shared
+      duration: 30,
+      location_id: 12,
+      participants: [4, 5],
+    })
+  })
+
+  it('fills the date placeholders of a topic pattern', () => {
+    const date = new Date(2025, 7, 4)
+    const month = date.toLocaleDateString([], { month: 'long' })
+
+    expect(resolveTopicPattern('Rapat {month} {year}', date)).toBe(`Rapat ${month} 2025`)
+    expect(resolveTopicPattern('Briefing {date}', date)).toBe(
+      `Briefing ${date.toLocaleDateString([], { dateStyle: 'medium' })}`,
+    )
+    expect(resolveTopicPattern('No placeholders', date)).toBe('No placeholders')
+  })
+})
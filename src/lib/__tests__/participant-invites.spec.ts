@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import type { User } from '@/types/user'
+import {
+  getUserRoles,
+  getUsersWithRole,
+  parseEmailList,
+  resolveEmails,
+} from '../participant-invites'
+
+const staff = { id: 2, name: 'Staff' }
+const admin = { id: 1, name: 'Admin' }
+
+const users = [
+  { id: 1, name: 'Alice', email: 'alice@bpkad.go.id', roles: [admin, staff] },
+  { id: 2, name: 'Budi', email: 'Budi@bpkad.go.id', roles: [staff] },
+  { id: 3, name: 'Citra', email: 'citra@bpkad.go.id' },
+] as User[]
+
+describe('participant invites', () => {
+  it('parses pasted email lists in any common format', () => {
+    const text = `alice@bpkad.go.id, BUDI@bpkad.go.id;
+      "Citra" <citra@bpkad.go.id>
+      not an email
+      alice@bpkad.go.id`
+
+    expect(parseEmailList(text)).toEqual([
+      'alice@bpkad.go.id',
+      'budi@bpkad.go.id',
+      'citra@bpkad.go.id',
+    ])
+    expect(parseEmailList('')).toEqual([])
+  })
+
+  it('resolves emails against users regardless of case', () => {
+    const resolved = resolveEmails(['budi@bpkad.go.id', 'dewi@bpkad.go.id'], users)
+
+    expect(resolved.users.map((user) => user.id)).toEqual([2])
+    expect(resolved.unknown).toEqual(['dewi@bpkad.go.id'])
+  })
+
+  it('lists the roles in use and the users holding one', () => {
+    expect(getUserRoles(users)).toEqual([admin, staff])
+    expect(getUsersWithRole(users, staff.id).map((user) => user.id)).toEqual([1, 2])
+    expect(getUsersWithRole(users, 99)).toEqual([])
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import type { Attendance } from '@/types/attendance'
+import type { Meeting } from '@/types/meeting'
+import type { User } from '@/types/user'
+import type { ZoomPastMeetingParticipant } from '@/types/zoom'
+import { buildParticipationReport, participationToCsv } from '../participation'
+
+const host = { id: 1, name: 'Citra', email: 'citra@example.com' } as User
+const alice = { id: 2, name: 'Alice', email: 'alice@example.com' } as User
+const budi = { id: 3, name: 'Budi Santoso', email: 'budi@example.com' } as User
+const dewi = { id: 4, name: 'Dewi', email: 'dewi@example.com' } as User
+
+function makeMeeting(type: Meeting['type']): Meeting {
+  return { id: 7, type, organizer: host, participants: [alice, budi, dewi] } as Meeting
+}
+
+function checkIn(email: string, name = email): Attendance {
+  return { id: 1, meeting_id: 7, name, email, created_at: '2025-08-04T02:05:00Z' } as Attendance
+}
+
+function join(name: string, duration: number, user_email?: string): ZoomPastMeetingParticipant {
+  return { name, user_email, duration, join_time: '', leave_time: '' }
+}
+
+describe('buildParticipationReport', () => {
+  it('classifies invitees from check-ins and Zoom joins in a hybrid meeting', () => {
+    const report = buildParticipationReport(
+      makeMeeting('hybrid'),
+      [checkIn('ALICE@example.com ')],
+      [join('Budi', 1200, 'budi@example.com'), join('Budi', 600, 'budi@example.com')],
+    )
+    expect(report.rows.map((row) => row.status)).toEqual(['in_person', 'online', 'no_show'])
+    expect(report.rows[1]!.onlineMinutes).toBe(30)
+    expect(report.rows[0]!.checkedInAt).toBe('2025-08-04T02:05:00Z')
+    expect(report.attended).toBe(2)
+    expect(report.rate).toBeCloseTo(2 / 3)
+  })
+
+  it('matches guests without an email by name', () => {
+    const report = buildParticipationReport(makeMeeting('online'), [], [join('budi santoso', 60)])
+    expect(report.rows[1]!.status).toBe('online')
+  })
+
+  it('counts check-ins to online meetings as online attendance', () => {
+    const report = buildParticipationReport(makeMeeting('online'), [checkIn('dewi@example.com')])
+    expect(report.rows[2]!.status).toBe('online')
+    expect(report.counts).toEqual({ online: 1, in_person: 0, no_show: 2 })
+  })
+
+  it('counts uninvited people once and leaves out the organizer', () => {
+    const report = buildParticipationReport(
+      makeMeeting('hybrid'),
+      [checkIn('eko@example.com'), checkIn('citra@example.com')],
+      [join('Eko', 60, 'eko@example.com'), join('Guest', 60), join('Citra', 60)],
+    )
+    expect(report.uninvited).toBe(2)
+  })
+
+  it('reports a zero rate when nobody was invited', () => {
+    const meeting = { ...makeMeeting('offline'), participants: [] }
+    expect(buildParticipationReport(meeting, []).rate).toBe(0)
+  })
+})
+
+describe('participationToCsv', () => {
+  it('writes one row per invitee and quotes values that need it', () => {
+    const meeting = { ...makeMeeting('hybrid'), participants: [{ ...alice, name: 'Alice, S.E.' }] }
+    const csv = participationToCsv(buildParticipationReport(meeting, []))
+    expect(csv.split('\r\n')).toEqual([
+      'Name,Email,Status,Checked in at,Minutes online',
+      '"Alice, S.E.",alice@example.com,No-show,,',
+    ])
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import type { Meeting } from '@/types/meeting'
+import {
+  createRecurrenceFormState,
+  describeRecurrence,
+  expandRecurrence,
+  getMovedOccurrences,
+  toRecurrenceRule,
+} from '../recurrence'
+import { toDateParam } from '../calendar'
+
+describe('recurrence helpers', () => {
+  it('returns no rule when recurrence is disabled', () => {
+    expect(toRecurrenceRule(createRecurrenceFormState())).toBeUndefined()
+  })
+
+  it('builds a rule with either a count or an end date', () => {
+    const state = { ...createRecurrenceFormState(), enabled: true, weekdays: [3, 1] }
+    expect(toRecurrenceRule(state)).toEqual({
+      frequency: 'weekly',
+      interval: 1,
+      weekdays: [1, 3],
+      count: 4,
+    })
+
+    expect(
+      toRecurrenceRule({ ...state, frequency: 'daily', end_type: 'until', until: '2025-09-01' }),
+    ).toEqual({ frequency: 'daily', interval: 1, until: '2025-09-01' })
+  })
+
+  it('expands daily rules by interval and keeps the start time', () => {
+    const start = new Date(2025, 7, 4, 9, 30)
+    const dates = expandRecurrence(start, { frequency: 'daily', interval: 2, count: 3 })
+    expect(dates.map(toDateParam)).toEqual(['2025-08-04', '2025-08-06', '2025-08-08'])
+    expect(dates.every((d) => d.getHours() === 9 && d.getMinutes() === 30)).toBe(true)
+  })
+
+  it('expands weekly rules on the selected weekdays, skipping days before the start', () => {
+    // Wednesday 2025-08-06
+    const start = new Date(2025, 7, 6, 10, 0)
+    const dates = expandRecurrence(start, {
+      frequency: 'weekly',
+      interval: 1,
+      weekdays: [1, 3],
+      until: '2025-08-18',
+    })
+    expect(dates.map(toDateParam)).toEqual(['2025-08-06', '2025-08-11', '2025-08-13', '2025-08-18'])
+  })
+
+  it('skips months without the start day for monthly rules', () => {
+    const start = new Date(2025, 0, 31, 8, 0)
+    const dates = expandRecurrence(start, { frequency: 'monthly', interval: 1, count: 3 })
+    expect(dates.map(toDateParam)).toEqual(['2025-01-31', '2025-03-31', '2025-05-31'])
+  })
+
+  it('caps the number of occurrences at the given limit', () => {
+    const start = new Date(2025, 7, 4, 9, 0)
+    const dates = expandRecurrence(
+      start,
+      { frequency: 'daily', interval: 1, until: '2026-12-31' },
+      10,
+    )
+    expect(dates).toHaveLength(10)
+  })
+
+  it('describes a rule in plain words', () => {
+    expect(
+      describeRecurrence({ frequency: 'weekly', interval: 2, weekdays: [1, 3], count: 6 }),
+    ).toBe('Every 2 weeks on Mon, Wed, 6 times')
+  })
+
+  it('moves the occurrences in scope by the same offset as the edited one', () => {
+    const series = [4, 11, 18].map(
+      (day, index) =>
+        ({ id: index + 1, start_time: new Date(2025, 7, day, 9, 0).toISOString() }) as Meeting,
+    )
+    const edited = series[1]!
+    const start = new Date(2025, 7, 11, 10, 30)
+
+    const moved = (scope: 'this' | 'following' | 'all') =>
+      getMovedOccurrences(series, edited, start, scope).map((o) => [o.id, o.start.getHours()])
+
+    expect(moved('this')).toEqual([[2, 10]])
+    expect(moved('following')).toEqual([
+      [2, 10],
+      [3, 10],
+    ])
+    expect(moved('all')).toEqual([
+      [1, 10],
+      [2, 10],
+      [3, 10],
+    ])
+    expect(getMovedOccurrences(series, edited, start, 'all')[2]!.start).toEqual(
+      new Date(2025, 7, 18, 10, 30),
+    )
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import type { Meeting } from '@/types/meeting'
+import type { User } from '@/types/user'
+import { findFreeSlots, listSlotStarts, type SlotSearch } from '../slot-finder'
+
+const alice = { id: 1, name: 'Alice' } as User
+const budi = { id: 2, name: 'Budi' } as User
+const citra = { id: 3, name: 'Citra' } as User
+
+function makeMeeting(id: number, start: Date, overrides: Partial<Meeting> = {}): Meeting {
+  return {
+    id,
+    topic: `Meeting ${id}`,
+    start_time: start.toISOString(),
+    duration: 60,
+    type: 'offline',
+    organizer: citra,
+    location: { id: 10, name: 'Aula' },
+    participants: [],
+    ...overrides,
+  } as Meeting
+}
+
+// Monday 4 August 2025, before working hours
+const now = new Date(2025, 7, 4, 7, 0)
+
+function makeSearch(overrides: Partial<SlotSearch> = {}): SlotSearch {
+  return {
+    from: new Date(2025, 7, 4),
+    to: new Date(2025, 7, 4),
+    workStart: 9 * 60,
+    workEnd: 12 * 60,
+    duration: 60,
+    location_id: 10,
+    participants: [1, 2],
+    ...overrides,
+  }
+}
+
+describe('listSlotStarts', () => {
+  it('lists half hour starts that end within working hours', () => {
+    const starts = listSlotStarts(makeSearch(), now)
+    expect(starts.map((start) => start.getHours() * 60 + start.getMinutes())).toEqual([
+      540, 570, 600, 630, 660,
+    ])
+  })
+
+  it('skips weekends unless asked and starts that have passed', () => {
+    // Friday to Monday
+    const search = makeSearch({ from: new Date(2025, 7, 8), to: new Date(2025, 7, 11) })
+    const friday = new Date(2025, 7, 8, 10, 15)
+
+    const weekdays = listSlotStarts(search, friday)
+    expect(new Set(weekdays.map((start) => start.getDate()))).toEqual(new Set([8, 11]))
+    expect(weekdays[0]).toEqual(new Date(2025, 7, 8, 10, 30))
+
+    const everyDay = listSlotStarts({ ...search, includeWeekends: true }, friday)
+    expect(new Set(everyDay.map((start) => start.getDate()))).toEqual(new Set([8, 9, 10, 11]))
+  })
+})
+
+describe('findFreeSlots', () => {
+  it('never suggests a slot while the room is taken', () => {
+    const meetings = [makeMeeting(1, new Date(2025, 7, 4, 9, 0), { duration: 120 })]
+
+    const slots = findFreeSlots(makeSearch(), meetings, now)
+    expect(slots.map((slot) => slot.start.getHours())).toEqual([11])
+  })
+
+  it('ranks slots by how many participants are free, then by the earliest start', () => {
+    const meetings = [
+      makeMeeting(1, new Date(2025, 7, 4, 9, 0), { location: null, participants: [alice] }),
+      makeMeeting(2, new Date(2025, 7, 4, 10, 0), { location: null, participants: [budi] }),
+    ]
+
+    const slots = findFreeSlots(makeSearch(), meetings, now)
+    expect(slots.map((slot) => [slot.start.getHours(), slot.start.getMinutes()])).toEqual([
+      [11, 0],
+      [9, 0],
+      [10, 0],
+      [10, 30],
+      [9, 30],
+    ])
+    expect(slots[0]!.available).toBe(2)
+    expect(slots[1]!.busy).toEqual([alice])
+    expect(slots[4]!.available).toBe(0)
+    expect(slots[4]!.busy.map((user) => user.name)).toEqual(['Alice', 'Budi'])
+    expect(findFreeSlots(makeSearch(), meetings, now, 2)).toHaveLength(2)
+  })
+
+  it('flags slots that overlap meetings without a participant list', () => {
+    const meetings = [
+      makeMeeting(1, new Date(2025, 7, 4, 9, 0), { location: null, participants: undefined }),
+    ]
+
+    const slots = findFreeSlots(makeSearch(), meetings, now)
+    const nine = slots.find((slot) => slot.start.getHours() === 9 && slot.start.getMinutes() === 0)
+    expect(nine).toMatchObject({ available: 2, busy: [], unchecked: true })
+    expect(slots.find((slot) => slot.start.getHours() === 11)!.unchecked).toBe(false)
+  })
+
+  it('skips slots where no Zoom account is free for an online meeting', () => {
+    const meetings = [
+      makeMeeting(1, new Date(2025, 7, 4, 9, 0), {
+        type: 'online',
+        location: null,
+        duration: 120,
+        zoom_account_id: 7,
+      }),
+    ]
+
+    const slots = findFreeSlots(
+      makeSearch({ location_id: undefined, online: true, zoom_account_ids: [7] }),
+      meetings,
+      now,
+    )
+    expect(slots.map((slot) => slot.start.getHours())).toEqual([11])
+  })
+})
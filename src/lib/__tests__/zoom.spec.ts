@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import type { Meeting, ZoomMeeting } from '@/types/meeting'
+import type { ZoomApiMeeting } from '@/types/zoom'
+import {
+  createZoomOptionsState,
+  encodeZoomUuid,
+  parseStoredZoomConnections,
+  reconcileZoomMeetings,
+  toZoomMeetingSettings,
+} from '../zoom'
+
+const now = new Date(2025, 7, 4, 12, 0)
+
+function makeZoomMeeting(id: number): ZoomApiMeeting {
+  return { id, uuid: `uuid-${id}`, topic: `Zoom ${id}`, type: 2 } as ZoomApiMeeting
+}
+
+function makeMeeting(id: number, zoomId: number | null, overrides: Partial<Meeting> = {}): Meeting {
+  return {
+    id,
+    topic: `Meeting ${id}`,
+    start_time: new Date(2025, 7, 5, 9, 0).toISOString(),
+    duration: 60,
+    type: 'online',
+    zoom_meeting: zoomId ? ({ zoom_id: zoomId } as ZoomMeeting) : null,
+    ...overrides,
+  } as Meeting
+}
+
+describe('encodeZoomUuid', () => {
+  it('encodes base64 characters once', () => {
+    expect(encodeZoomUuid('k9vd10Q2TE+R4emk4LGNig==')).toBe('k9vd10Q2TE%2BR4emk4LGNig%3D%3D')
+  })
+
+  it('double-encodes uuids that contain a slash', () => {
+    expect(encodeZoomUuid('/ajXp112QmuoKj4854875==')).toBe('%252FajXp112QmuoKj4854875%253D%253D')
+    expect(encodeZoomUuid('ab//cd+e=')).toBe('ab%252F%252Fcd%252Be%253D')
+  })
+
+  it('leaves plain uuids unchanged', () => {
+    expect(encodeZoomUuid('3SjLbv0IRgmY2LX0FzPJSg')).toBe('3SjLbv0IRgmY2LX0FzPJSg')
+  })
+})
+
+describe('reconcileZoomMeetings', () => {
+  it('reports orphans on both sides', () => {
+    const result = reconcileZoomMeetings(
+      [makeZoomMeeting(100), makeZoomMeeting(200)],
+      [makeMeeting(1, 100), makeMeeting(2, 300), makeMeeting(3, null, { type: 'hybrid' })],
+      now,
+    )
+    expect(result.matched).toBe(1)
+    expect(result.zoomOnly.map((m) => m.id)).toEqual([200])
+    expect(result.localOnly.map((m) => m.id)).toEqual([2, 3])
+  })
+
+  it('ignores offline meetings and meetings that have already ended', () => {
+    const result = reconcileZoomMeetings(
+      [],
+      [
+        makeMeeting(1, null, { type: 'offline' }),
+        makeMeeting(2, 300, { start_time: new Date(2025, 7, 1, 9, 0).toISOString() }),
+      ],
+      now,
+    )
+    expect(result.localOnly).toEqual([])
+  })
+})
+
+describe('toZoomMeetingSettings', () => {
+  it('leaves out alternative hosts when there are none', () => {
+    expect(toZoomMeetingSettings(createZoomOptionsState())).toEqual({
+      waiting_room: true,
+      join_before_host: false,
+      mute_upon_entry: true,
+      auto_recording: 'none',
+    })
+  })
+
+  it('joins trimmed, de-duplicated alternative hosts with semicolons', () => {
+    const settings = toZoomMeetingSettings({
+      ...createZoomOptionsState(),
+      auto_recording: 'cloud',
+      alternative_hosts: [' ana@example.com', 'Ana@example.com', 'budi@example.com', ''],
+    })
+    expect(settings.auto_recording).toBe('cloud')
+    expect(settings.alternative_hosts).toBe('ana@example.com;budi@example.com')
+  })
+
+  it('does not send the account choice as a meeting setting', () => {
+    const settings = toZoomMeetingSettings({ ...createZoomOptionsState(), account_id: 3 })
+    expect(settings).not.toHaveProperty('account_id')
+  })
+})
+
+describe('parseStoredZoomConnections', () => {
+  const status = {
+    success: false,
+    message: 'Invalid client_id or client_secret',
+    checked_at: '2025-08-04T05:00:00.000Z',
+    last_verified_at: null,
+  }
+
+  it('ignores missing or corrupt stored checks', () => {
+    expect(parseStoredZoomConnections(null)).toEqual({})
+    expect(parseStoredZoomConnections('{not json')).toEqual({})
+    expect(parseStoredZoomConnections('[1]')).toEqual({})
+  })
+
+  it('restores the saved check of each account and drops unusable entries', () => {
+    const stored = JSON.stringify({ 1: status, 2: { success: true }, default: status })
+    expect(parseStoredZoomConnections(stored)).toEqual({ 1: status })
+  })
+})
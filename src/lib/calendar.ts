@@ -0,0 +1,264 @@
+import type { Meeting } from '@/types/meeting'
+
+export type CalendarView = 'month' | 'week' | 'day'
+
+export interface CalendarRange {
+  start: Date
+  end: Date
+}
+
+/**
+ * The fields the calendar needs to place and label an event, shared by `Meeting` and public meetings
+ */
+export type CalendarEvent = Pick<Meeting, 'id' | 'topic' | 'start_time' | 'duration' | 'type'>
+
+export interface PositionedMeeting {
+  meeting: Meeting
+  start: Date
+  end: Date
+  lane: number
+  lanes: number
+}
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+/**
+ * Tailwind classes used to color calendar events by meeting type
+ */
+export const MEETING_TYPE_COLORS: Record<Meeting['type'], string> = {
+  online: 'bg-blue-100 text-blue-900 border-blue-400 dark:bg-blue-950 dark:text-blue-100',
+  offline:
+    'bg-emerald-100 text-emerald-900 border-emerald-400 dark:bg-emerald-950 dark:text-emerald-100',
+  hybrid: 'bg-amber-100 text-amber-900 border-amber-400 dark:bg-amber-950 dark:text-amber-100',
+}
+
+export const MEETING_TYPE_LABELS: Record<Meeting['type'], string> = {
+  online: 'Online',
+  offline: 'Offline',
+  hybrid: 'Hybrid',
+}
+
+/**
+ * Returns a copy of the date set to local midnight
+ */
+export function startOfDay(date: Date): Date {
+  const d = new Date(date)
+  d.setHours(0, 0, 0, 0)
+  return d
+}
+
+export function addDays(date: Date, days: number): Date {
+  const d = new Date(date)
+  d.setDate(d.getDate() + days)
+  return d
+}
+
+export function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * MINUTE_MS)
+}
+
+/**
+ * Returns the Monday of the week containing the date
+ */
+export function startOfWeek(date: Date): Date {
+  const d = startOfDay(date)
+  const offset = (d.getDay() + 6) % 7
+  return addDays(d, -offset)
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  )
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time, as expected by the calendar endpoint
+ */
+export function toDateParam(date: Date): string {
+  const year = date.getFullYear()
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Formats a date as a datetime-local input value (YYYY-MM-DDTHH:MM)
+ */
+export function toDateTimeLocal(date: Date): string {
+  const hours = date.getHours().toString().padStart(2, '0')
+  const minutes = date.getMinutes().toString().padStart(2, '0')
+  return `${toDateParam(date)}T${hours}:${minutes}`
+}
+
+/**
+ * Converts a time input value (HH:MM) to minutes after midnight
+ */
+export function toMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Suggests a start for a copy of a meeting: the same weekday and time one week later,
+ * moved further by whole weeks when that is already in the past
+ */
+export function getDuplicateStart(start: Date, now = new Date()): Date {
+  let next = addDays(start, 7)
+  while (next <= now) next = addDays(next, 7)
+  return next
+}
+
+/**
+ * Gets the first and last visible day for a calendar view.
+ * Month views always span six full weeks so the grid height stays stable.
+ */
+export function getVisibleRange(view: CalendarView, cursor: Date): CalendarRange {
+  switch (view) {
+    case 'month': {
+      const firstOfMonth = new Date(cursor.getFullYear(), cursor.getMonth(), 1)
+      const start = startOfWeek(firstOfMonth)
+      return { start, end: addDays(start, 41) }
+    }
+    case 'week': {
+      const start = startOfWeek(cursor)
+      return { start, end: addDays(start, 6) }
+    }
+    case 'day':
+    default: {
+      const start = startOfDay(cursor)
+      return { start, end: start }
+    }
+  }
+}
+
+/**
+ * Moves the cursor by one view unit in the given direction
+ */
+export function shiftCursor(view: CalendarView, cursor: Date, direction: 1 | -1): Date {
+  switch (view) {
+    case 'month':
+      return new Date(cursor.getFullYear(), cursor.getMonth() + direction, 1)
+    case 'week':
+      return addDays(cursor, 7 * direction)
+    case 'day':
+    default:
+      return addDays(cursor, direction)
+  }
+}
+
+/**
+ * Lists every day between two dates, inclusive
+ */
+export function eachDay(start: Date, end: Date): Date[] {
+  const days: Date[] = []
+  let current = startOfDay(start)
+  const last = startOfDay(end)
+  while (current <= last) {
+    days.push(current)
+    current = addDays(current, 1)
+  }
+  return days
+}
+
+export function getMeetingStart(meeting: Pick<Meeting, 'start_time'>): Date {
+  return new Date(meeting.start_time)
+}
+
+export function getMeetingEnd(meeting: Pick<Meeting, 'start_time' | 'duration'>): Date {
+  return addMinutes(getMeetingStart(meeting), meeting.duration)
+}
+
+/**
+ * Checks whether a meeting occupies any part of the given local day
+ */
+export function meetingOccursOn(meeting: CalendarEvent, day: Date): boolean {
+  const dayStart = startOfDay(day).getTime()
+  const dayEnd = dayStart + DAY_MS
+  const start = getMeetingStart(meeting).getTime()
+  const end = getMeetingEnd(meeting).getTime()
+  return start < dayEnd && (end > dayStart || start === dayStart)
+}
+
+/**
+ * Returns the meetings occurring on a day, ordered by start time
+ */
+export function getMeetingsForDay<T extends CalendarEvent>(meetings: T[], day: Date): T[] {
+  return meetings
+    .filter((meeting) => meetingOccursOn(meeting, day))
+    .sort((a, b) => getMeetingStart(a).getTime() - getMeetingStart(b).getTime())
+}
+
+/**
+ * Lays out a day's meetings into side-by-side lanes so overlapping events don't cover each other.
+ * Start and end are clamped to the day so multi-day meetings render inside the column.
+ */
+export function layoutDayMeetings(meetings: Meeting[], day: Date): PositionedMeeting[] {
+  const dayStart = startOfDay(day)
+  const dayEnd = addDays(dayStart, 1)
+
+  const items = getMeetingsForDay(meetings, day).map((meeting) => {
+    const start = getMeetingStart(meeting)
+    const end = getMeetingEnd(meeting)
+    return {
+      meeting,
+      start: start < dayStart ? dayStart : start,
+      end: end > dayEnd ? dayEnd : end,
+      lane: 0,
+      lanes: 1,
+    }
+  })
+
+  // Group transitively overlapping meetings into clusters, then assign lanes per cluster
+  let cluster: PositionedMeeting[] = []
+  let clusterEnd = 0
+  const laneEnds: number[] = []
+
+  const closeCluster = () => {
+    const lanes = Math.max(1, laneEnds.length)
+    cluster.forEach((item) => (item.lanes = lanes))
+    cluster = []
+    laneEnds.length = 0
+  }
+
+  items.forEach((item) => {
+    if (cluster.length > 0 && item.start.getTime() >= clusterEnd) {
+      closeCluster()
+    }
+
+    let lane = laneEnds.findIndex((end) => end <= item.start.getTime())
+    if (lane === -1) {
+      lane = laneEnds.length
+      laneEnds.push(0)
+    }
+    laneEnds[lane] = item.end.getTime()
+    item.lane = lane
+
+    cluster.push(item)
+    clusterEnd = Math.max(clusterEnd, item.end.getTime())
+  })
+  closeCluster()
+
+  return items
+}
+
+/**
+ * Formats the heading shown above the calendar for the current view
+ */
+export function formatRangeTitle(view: CalendarView, cursor: Date): string {
+  if (view === 'month') {
+    return cursor.toLocaleDateString([], { month: 'long', year: 'numeric' })
+  }
+
+  if (view === 'day') {
+    return cursor.toLocaleDateString([], { dateStyle: 'full' })
+  }
+
+  const { start, end } = getVisibleRange('week', cursor)
+  const startLabel = start.toLocaleDateString([], { day: 'numeric', month: 'short' })
+  const endLabel = end.toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' })
+  return `${startLabel} – ${endLabel}`
+}
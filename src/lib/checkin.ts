@@ -0,0 +1,63 @@
+import type { Meeting } from '@/types/meeting'
+
+/**
+ * The key accepted by `POST /api/public/meetings/{uuid}/attendance`: the Zoom meeting uuid when
+ * the meeting has one, otherwise the meeting's own uuid
+ */
+export function getCheckInKey(meeting: Meeting): string | null {
+  const zoomUuid = meeting.zoom_meeting?.uuid
+  if (typeof zoomUuid === 'string' && zoomUuid) return zoomUuid
+  return meeting.uuid || null
+}
+
+export interface CheckInPoster {
+  topic: string
+  time: string
+  room: string
+  url: string
+  qrSvg: string
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Standalone A4 poster page with the check-in QR code, meant to be printed and put up at the door.
+ * The QR SVG is generated locally and inserted as-is; every other value is escaped.
+ */
+export function buildCheckInPosterHtml(poster: CheckInPoster): string {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(poster.topic)}</title>
+<style>
+  @page { size: A4 portrait; margin: 20mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, sans-serif; color: #111827; text-align: center; }
+  h1 { font-size: 32pt; margin: 0 0 8mm; }
+  .label { font-size: 12pt; text-transform: uppercase; letter-spacing: 0.1em; color: #6b7280; }
+  .meta { font-size: 16pt; margin: 2mm 0; }
+  .qr { width: 120mm; height: 120mm; margin: 10mm auto; }
+  .qr svg { width: 100%; height: 100%; }
+  .hint { font-size: 18pt; font-weight: 600; margin: 0 0 4mm; }
+  .url { font-size: 10pt; color: #6b7280; word-break: break-all; }
+</style>
+</head>
+<body>
+  <p class="label">Attendance check-in</p>
+  <h1>${escapeHtml(poster.topic)}</h1>
+  <p class="meta">${escapeHtml(poster.time)}</p>
+  ${poster.room ? `<p class="meta">${escapeHtml(poster.room)}</p>` : ''}
+  <div class="qr">${poster.qrSvg}</div>
+  <p class="hint">Scan to sign the attendance list</p>
+  <p class="url">${escapeHtml(poster.url)}</p>
+</body>
+</html>`
+}
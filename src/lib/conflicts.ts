@@ -0,0 +1,152 @@
+import type { Meeting } from '@/types/meeting'
+import type { User } from '@/types/user'
+import { addMinutes, getMeetingEnd, getMeetingStart } from '@/lib/calendar'
+
+/**
+ * The slot being scheduled. A series has one start per occurrence.
+ */
+export interface ConflictCandidate {
+  starts: Date[]
+  duration: number
+  location_id?: number
+  participants: number[]
+  exclude_ids?: number[] // The meetings being edited, which don't conflict with themselves
+  online?: boolean // Online and hybrid meetings need a free Zoom account
+  zoom_account_id?: number // The account picked for the meeting, any free account when omitted
+  zoom_account_ids?: number[] // Every configured Zoom account; capacity isn't checked when empty
+}
+
+export interface ParticipantConflict {
+  user: User
+  meetings: Meeting[]
+}
+
+/**
+ * An occurrence for which no Zoom account is free, with the online meetings holding the accounts
+ */
+export interface ZoomCapacityConflict {
+  start: Date
+  meetings: Meeting[]
+  estimated: boolean // Some of the meetings don't report their account, so it is a head count
+}
+
+export interface MeetingConflicts {
+  room: Meeting[]
+  participants: ParticipantConflict[]
+  zoom: ZoomCapacityConflict[]
+  unchecked: Meeting[] // Overlapping meetings without a participant list, invitees may be busy there
+}
+
+export function hasMeetingConflicts(conflicts: MeetingConflicts): boolean {
+  return conflicts.room.length > 0 || conflicts.participants.length > 0 || conflicts.zoom.length > 0
+}
+
+function overlapsSlot(meeting: Meeting, start: Date, duration: number): boolean {
+  const end = addMinutes(start, duration).getTime()
+  return (
+    start.getTime() < getMeetingEnd(meeting).getTime() && getMeetingStart(meeting).getTime() < end
+  )
+}
+
+/**
+ * The meetings overlapping any occurrence of the candidate, except the ones being edited
+ */
+export function findOverlappingMeetings(
+  candidate: ConflictCandidate,
+  meetings: Meeting[],
+): Meeting[] {
+  return meetings.filter(
+    (meeting) =>
+      !candidate.exclude_ids?.includes(meeting.id) &&
+      candidate.starts.some((start) => overlapsSlot(meeting, start, candidate.duration)),
+  )
+}
+
+/**
+ * Counts the online and hybrid meetings overlapping each occurrence per Zoom account. Each
+ * account hosts one meeting at a time, and meetings without a known account still take one.
+ *
+ * Meetings only carry `zoom_account_id` once the backend reports it (see the proposed changes in
+ * docs/api/meetings.md). Until then every meeting is unassigned and the check comes down to
+ * comparing the number of online meetings with the number of accounts, which is flagged as
+ * `estimated`.
+ */
+export function findZoomCapacityConflicts(
+  candidate: ConflictCandidate,
+  meetings: Meeting[],
+): ZoomCapacityConflict[] {
+  const accountIds = candidate.zoom_account_ids || []
+  if (!candidate.online || accountIds.length === 0) return []
+
+  const conflicts: ZoomCapacityConflict[] = []
+  for (const start of candidate.starts) {
+    const overlapping = meetings.filter(
+      (meeting) =>
+        !candidate.exclude_ids?.includes(meeting.id) &&
+        meeting.type !== 'offline' &&
+        overlapsSlot(meeting, start, candidate.duration),
+    )
+
+    const busyByAccount = new Map<number, number>()
+    let unassigned = 0
+    for (const meeting of overlapping) {
+      const accountId = meeting.zoom_account_id
+      if (accountId && accountIds.includes(accountId)) {
+        busyByAccount.set(accountId, (busyByAccount.get(accountId) || 0) + 1)
+      } else {
+        unassigned++
+      }
+    }
+
+    const freeAccounts = accountIds.filter((id) => !busyByAccount.has(id))
+    const isFull = candidate.zoom_account_id
+      ? !freeAccounts.includes(candidate.zoom_account_id) || freeAccounts.length <= unassigned
+      : freeAccounts.length <= unassigned
+
+    if (isFull) {
+      conflicts.push({ start, meetings: overlapping, estimated: unassigned > 0 })
+    }
+  }
+  return conflicts
+}
+
+/**
+ * Finds meetings that overlap the candidate slot in the same room, and invited participants who
+ * already attend or organize an overlapping meeting. Online meetings never hold a room.
+ *
+ * Calendar results don't list participants, so the caller loads them for the overlapping
+ * meetings. Meetings still without a list are returned as `unchecked` rather than treated as free.
+ */
+export function findMeetingConflicts(
+  candidate: ConflictCandidate,
+  meetings: Meeting[],
+): MeetingConflicts {
+  const overlapping = findOverlappingMeetings(candidate, meetings)
+
+  const room = candidate.location_id
+    ? overlapping.filter(
+        (meeting) => meeting.type !== 'online' && meeting.location?.id === candidate.location_id,
+      )
+    : []
+
+  const byUser = new Map<number, ParticipantConflict>()
+  for (const meeting of overlapping) {
+    const attendees = [meeting.organizer, ...(meeting.participants || [])]
+    for (const user of attendees) {
+      if (!user || !candidate.participants.includes(user.id)) continue
+      const entry = byUser.get(user.id) || { user, meetings: [] }
+      if (!entry.meetings.includes(meeting)) entry.meetings.push(meeting)
+      byUser.set(user.id, entry)
+    }
+  }
+
+  return {
+    room,
+    participants: [...byUser.values()].sort((a, b) => a.user.name.localeCompare(b.user.name)),
+    zoom: findZoomCapacityConflicts(candidate, overlapping),
+    unchecked:
+      candidate.participants.length > 0
+        ? overlapping.filter((meeting) => !meeting.participants)
+        : [],
+  }
+}
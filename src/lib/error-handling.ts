@@ -15,3 +15,14 @@ export function getErrorMessage(error: unknown): string {
   }
   return error instanceof Error ? error.message : 'An unknown error occurred'
 }
+
+/**
+ * Prefers the first validation message of an error state, which says more than the generic one
+ */
+export function describeErrorState(error: {
+  message: string
+  details?: Record<string, string[]>
+}): string {
+  const detail = error.details ? Object.values(error.details).flat()[0] : undefined
+  return detail || error.message
+}
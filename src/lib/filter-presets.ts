@@ -0,0 +1,127 @@
+import { addDays, startOfDay, startOfWeek, toDateParam } from './calendar'
+import type { MeetingQueryParams } from '@/stores/meetings'
+
+export type RelativeDateRange =
+  | 'this_week'
+  | 'next_week'
+  | 'this_month'
+  | 'next_month'
+  | 'last_30_days'
+  | 'next_30_days'
+
+export const RELATIVE_DATE_RANGE_OPTIONS: { value: RelativeDateRange; label: string }[] = [
+  { value: 'this_week', label: 'This week' },
+  { value: 'next_week', label: 'Next week' },
+  { value: 'this_month', label: 'This month' },
+  { value: 'next_month', label: 'Next month' },
+  { value: 'last_30_days', label: 'Last 30 days' },
+  { value: 'next_30_days', label: 'Next 30 days' },
+]
+
+export interface MeetingFilterPreset {
+  id: string
+  name: string
+  params: MeetingQueryParams // Never holds a page, and no dates when `dateRange` is set
+  dateRange?: RelativeDateRange
+}
+
+export interface StoredFilterPresets {
+  presets: MeetingFilterPreset[]
+  defaultId: string | null
+}
+
+/**
+ * Resolves a relative range to inclusive YYYY-MM-DD dates, weeks running Monday to Sunday
+ */
+export function resolveRelativeDateRange(
+  range: RelativeDateRange,
+  now = new Date(),
+): { start_date: string; end_date: string } {
+  const today = startOfDay(now)
+  let start: Date
+  let end: Date
+
+  switch (range) {
+    case 'this_week':
+    case 'next_week':
+      start = addDays(startOfWeek(today), range === 'next_week' ? 7 : 0)
+      end = addDays(start, 6)
+      break
+    case 'this_month':
+    case 'next_month': {
+      const month = today.getMonth() + (range === 'next_month' ? 1 : 0)
+      start = new Date(today.getFullYear(), month, 1)
+      end = new Date(today.getFullYear(), month + 1, 0)
+      break
+    }
+    case 'last_30_days':
+      start = addDays(today, -29)
+      end = today
+      break
+    case 'next_30_days':
+      start = today
+      end = addDays(today, 29)
+      break
+  }
+
+  return { start_date: toDateParam(start), end_date: toDateParam(end) }
+}
+
+export function createFilterPreset(
+  name: string,
+  params: MeetingQueryParams,
+  dateRange?: RelativeDateRange,
+): MeetingFilterPreset {
+  const filters = { ...params }
+  delete filters.page
+  if (dateRange) {
+    delete filters.start_date
+    delete filters.end_date
+  }
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    params: filters,
+    ...(dateRange ? { dateRange } : {}),
+  }
+}
+
+/**
+ * Returns the query params for a preset, with any relative range resolved against `now`
+ */
+export function resolvePresetParams(
+  preset: MeetingFilterPreset,
+  now = new Date(),
+): MeetingQueryParams {
+  if (!preset.dateRange) return { ...preset.params }
+  return { ...preset.params, ...resolveRelativeDateRange(preset.dateRange, now) }
+}
+
+/**
+ * Reads presets saved in localStorage, dropping anything that isn't a usable preset
+ */
+export function parseStoredPresets(raw: string | null): StoredFilterPresets {
+  const empty: StoredFilterPresets = { presets: [], defaultId: null }
+  if (!raw) return empty
+
+  try {
+    const stored = JSON.parse(raw)
+    const validRanges = new Set<string>(RELATIVE_DATE_RANGE_OPTIONS.map((option) => option.value))
+    const presets: MeetingFilterPreset[] = Array.isArray(stored?.presets)
+      ? stored.presets.filter(
+          (preset: MeetingFilterPreset) =>
+            typeof preset?.id === 'string' &&
+            typeof preset.name === 'string' &&
+            typeof preset.params === 'object' &&
+            preset.params !== null &&
+            (preset.dateRange === undefined || validRanges.has(preset.dateRange)),
+        )
+      : []
+    const defaultId = presets.some((preset) => preset.id === stored.defaultId)
+      ? stored.defaultId
+      : null
+    return { presets, defaultId }
+  } catch {
+    return empty
+  }
+}
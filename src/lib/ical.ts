@@ -0,0 +1,185 @@
+import type { Meeting } from '@/types/meeting'
+import { getMeetingEnd, getMeetingStart } from '@/lib/calendar'
+
+/**
+ * All meetings are held in Jakarta. WIB has been a fixed UTC+7 with no daylight saving since 1964,
+ * so a single STANDARD block describes the zone completely.
+ */
+export const ICAL_TIMEZONE = 'Asia/Jakarta'
+const JAKARTA_OFFSET_MS = 7 * 60 * 60 * 1000
+
+const PRODUCT_ID = '-//BPKAD//Meeting Scheduler//ID'
+const UID_DOMAIN = 'bpkad-meet'
+const MAX_LINE_OCTETS = 75
+
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${ICAL_TIMEZONE}`,
+  `X-LIC-LOCATION:${ICAL_TIMEZONE}`,
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0700',
+  'TZOFFSETTO:+0700',
+  'TZNAME:WIB',
+  'DTSTART:19700101T000000',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+]
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0')
+}
+
+function formatUtcParts(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`
+  )
+}
+
+/**
+ * UTC date-time, e.g. 20250804T020000Z
+ */
+export function formatIcalUtc(date: Date): string {
+  return `${formatUtcParts(date)}Z`
+}
+
+/**
+ * Jakarta wall-clock time for use with TZID=Asia/Jakarta. Derived from the UTC instant so the
+ * result doesn't depend on the browser's timezone.
+ */
+export function formatIcalJakarta(date: Date): string {
+  return formatUtcParts(new Date(date.getTime() + JAKARTA_OFFSET_MS))
+}
+
+/**
+ * Escapes a TEXT value (RFC 5545 section 3.3.11)
+ */
+export function escapeIcalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Folds a content line to 75 octets (RFC 5545 section 3.1) without splitting multi-byte characters
+ */
+export function foldIcalLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+function getJoinUrl(meeting: Meeting): string {
+  const zoomUrl = meeting.zoom_meeting?.join_url
+  return typeof zoomUrl === 'string' && zoomUrl ? zoomUrl : meeting.join_url || ''
+}
+
+function getPassword(meeting: Meeting): string {
+  const zoomPassword = meeting.zoom_meeting?.password
+  return typeof zoomPassword === 'string' && zoomPassword ? zoomPassword : meeting.password || ''
+}
+
+function getLocation(meeting: Meeting): string {
+  if (meeting.type !== 'online' && meeting.location) {
+    const { name, room_name, address } = meeting.location
+    return [room_name ? `${name} - ${room_name}` : name, address].filter(Boolean).join(', ')
+  }
+  return getJoinUrl(meeting)
+}
+
+function getDescription(meeting: Meeting): string {
+  const lines: string[] = []
+  if (meeting.description) lines.push(meeting.description, '')
+
+  const joinUrl = getJoinUrl(meeting)
+  if (meeting.type !== 'offline' && joinUrl) {
+    lines.push(`Join Zoom Meeting: ${joinUrl}`)
+    const password = getPassword(meeting)
+    if (password) lines.push(`Password: ${password}`)
+  }
+
+  return lines.join('\n').trim()
+}
+
+function buildEvent(meeting: Meeting, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:meeting-${meeting.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatIcalUtc(stamp)}`,
+    `DTSTART;TZID=${ICAL_TIMEZONE}:${formatIcalJakarta(getMeetingStart(meeting))}`,
+    `DTEND;TZID=${ICAL_TIMEZONE}:${formatIcalJakarta(getMeetingEnd(meeting))}`,
+    `SUMMARY:${escapeIcalText(meeting.topic)}`,
+  ]
+
+  const description = getDescription(meeting)
+  if (description) lines.push(`DESCRIPTION:${escapeIcalText(description)}`)
+
+  const location = getLocation(meeting)
+  if (location) lines.push(`LOCATION:${escapeIcalText(location)}`)
+
+  const joinUrl = getJoinUrl(meeting)
+  if (joinUrl) lines.push(`URL:${joinUrl}`)
+
+  if (meeting.organizer?.email) {
+    const name = meeting.organizer.name.replace(/"/g, "'")
+    lines.push(`ORGANIZER;CN="${name}":mailto:${meeting.organizer.email}`)
+  }
+
+  if (meeting.updated_at) lines.push(`LAST-MODIFIED:${formatIcalUtc(new Date(meeting.updated_at))}`)
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/**
+ * Builds an RFC 5545 calendar containing one event per meeting
+ */
+export function buildMeetingsCalendar(
+  meetings: Meeting[],
+  calendarName = 'Meetings',
+  stamp = new Date(),
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcalText(calendarName)}`,
+    `X-WR-TIMEZONE:${ICAL_TIMEZONE}`,
+    ...VTIMEZONE,
+    ...meetings.flatMap((meeting) => buildEvent(meeting, stamp)),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldIcalLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * File name safe slug of a meeting topic, e.g. "rapat-koordinasi.ics"
+ */
+export function getIcalFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${slug || 'meeting'}.ics`
+}
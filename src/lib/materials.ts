@@ -0,0 +1,33 @@
+/**
+ * Mirrors the server rules for meeting materials (`mimes:pdf,doc,docx,ppt,pptx,jpg,png,jpeg|max:10240`)
+ */
+export const MATERIAL_EXTENSIONS = ['pdf', 'doc', 'docx', 'ppt', 'pptx', 'jpg', 'jpeg', 'png']
+
+export const MATERIAL_MAX_SIZE = 10 * 1024 * 1024
+
+export const MATERIAL_ACCEPT = MATERIAL_EXTENSIONS.map((extension) => `.${extension}`).join(',')
+
+export function getFileExtension(fileName: string): string {
+  const index = fileName.lastIndexOf('.')
+  return index > -1 ? fileName.slice(index + 1).toLowerCase() : ''
+}
+
+/**
+ * Returns an error message when the file would be rejected by the server, or null when it is valid
+ */
+export function validateMaterialFile(file: Pick<File, 'name' | 'size'>): string | null {
+  if (!MATERIAL_EXTENSIONS.includes(getFileExtension(file.name))) {
+    return `Only ${MATERIAL_EXTENSIONS.join(', ')} files are allowed.`
+  }
+  if (file.size > MATERIAL_MAX_SIZE) {
+    return `File is larger than ${formatFileSize(MATERIAL_MAX_SIZE)}.`
+  }
+  return null
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+}
@@ -0,0 +1,143 @@
+import type { Meeting } from '@/types/meeting'
+import type { FieldValue, Setting } from '@/types/settings'
+
+// Settings group holding the shared templates, curated by admins on the settings page
+export const MEETING_TEMPLATE_GROUP = 'meeting_templates'
+
+export type MeetingTemplateScope = 'shared' | 'personal'
+
+/**
+ * Shared templates are settings everyone can read. Personal templates never leave the browser of
+ * their owner, like the filter presets.
+ */
+export interface MeetingTemplateData {
+  name: string
+  scope: MeetingTemplateScope
+  topic: string // May contain {date}, {month} and {year}
+  description: string
+  duration: number
+  type: Meeting['type']
+  location_id: number | null
+  participants: number[]
+}
+
+export interface MeetingTemplate extends MeetingTemplateData {
+  id: string // Unique across both scopes
+  setting_id: number | null // Only set for shared templates
+}
+
+export const TOPIC_PLACEHOLDERS = ['{date}', '{month}', '{year}'] as const
+
+const MEETING_TYPES: Meeting['type'][] = ['online', 'offline', 'hybrid']
+
+export function templateFromMeeting(
+  meeting: Meeting,
+  options: { name: string; topic: string; scope: MeetingTemplateScope },
+  includeParticipants = true,
+): MeetingTemplateData {
+  return {
+    name: options.name.trim(),
+    scope: options.scope,
+    topic: options.topic.trim(),
+    description: meeting.description || '',
+    duration: meeting.duration,
+    type: meeting.type,
+    location_id: meeting.type === 'online' ? null : meeting.location?.id || null,
+    participants: includeParticipants ? (meeting.participants || []).map((user) => user.id) : [],
+  }
+}
+
+export function toTemplateSettingPayload(
+  template: MeetingTemplateData,
+): Record<string, FieldValue> {
+  return {
+    name: template.name,
+    topic: template.topic,
+    description: template.description,
+    duration: template.duration,
+    type: template.type,
+    location_id: template.location_id ?? '',
+    participants: template.participants,
+  }
+}
+
+function toId(value: unknown): number | null {
+  const id = Number(value)
+  return value !== '' && Number.isInteger(id) && id > 0 ? id : null
+}
+
+/**
+ * Reads the template fields shared by both scopes, or null when the template is unusable
+ */
+function parseTemplateFields(
+  fields: Record<string, unknown>,
+): Omit<MeetingTemplateData, 'name' | 'scope'> | null {
+  const type = fields.type as Meeting['type']
+  const duration = Number(fields.duration)
+  if (typeof fields.topic !== 'string' || !fields.topic.trim()) return null
+  if (!MEETING_TYPES.includes(type) || !Number.isInteger(duration) || duration < 1) return null
+
+  return {
+    topic: fields.topic,
+    description: typeof fields.description === 'string' ? fields.description : '',
+    duration,
+    type,
+    location_id: type === 'online' ? null : toId(fields.location_id),
+    participants: Array.isArray(fields.participants)
+      ? fields.participants.map(toId).filter((id): id is number => id !== null)
+      : [],
+  }
+}
+
+/**
+ * Reads a shared template from its setting. Admins may edit the payload by hand on the settings
+ * page, so anything unusable is skipped instead of breaking the picker.
+ */
+export function parseTemplateSetting(setting: Setting): MeetingTemplate | null {
+  const payload = setting.payload
+  const fields = parseTemplateFields(payload)
+  if (!fields) return null
+
+  return {
+    id: `setting-${setting.id}`,
+    setting_id: setting.id,
+    name: typeof payload.name === 'string' && payload.name.trim() ? payload.name : setting.name,
+    scope: 'shared',
+    ...fields,
+  }
+}
+
+export function createPersonalTemplate(data: MeetingTemplateData): MeetingTemplate {
+  return { ...data, id: crypto.randomUUID(), setting_id: null, scope: 'personal' }
+}
+
+/**
+ * Reads the personal templates saved in localStorage, dropping anything that isn't usable
+ */
+export function parseStoredTemplates(raw: string | null): MeetingTemplate[] {
+  if (!raw) return []
+
+  try {
+    const stored = JSON.parse(raw)
+    if (!Array.isArray(stored)) return []
+    return stored.flatMap((item): MeetingTemplate[] => {
+      if (typeof item?.id !== 'string' || typeof item.name !== 'string') return []
+      const fields = parseTemplateFields(item)
+      return fields
+        ? [{ id: item.id, setting_id: null, name: item.name, scope: 'personal', ...fields }]
+        : []
+    })
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Fills the date placeholders of a topic pattern, e.g. "Rapat Koordinasi {month} {year}"
+ */
+export function resolveTopicPattern(topic: string, date = new Date()): string {
+  return topic
+    .replace(/\{date\}/g, date.toLocaleDateString([], { dateStyle: 'medium' }))
+    .replace(/\{month\}/g, date.toLocaleDateString([], { month: 'long' }))
+    .replace(/\{year\}/g, String(date.getFullYear()))
+}
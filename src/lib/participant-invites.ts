@@ -0,0 +1,45 @@
+import type { Role, User } from '@/types/user'
+
+const EMAIL_PATTERN = /[^\s<>,;:"'()[\]]+@[^\s<>,;:"'()[\]]+\.[^\s<>,;:"'()[\]]+/g
+
+export interface ResolvedEmails {
+  users: User[]
+  unknown: string[] // Emails without a matching user
+}
+
+/**
+ * Pulls the email addresses out of pasted text, one per line or separated by commas or semicolons.
+ * Entries copied from a mail client like "Budi <budi@example.com>" work too.
+ */
+export function parseEmailList(text: string): string[] {
+  const emails = (text.match(EMAIL_PATTERN) || []).map((email) => email.toLowerCase())
+  return [...new Set(emails)]
+}
+
+export function resolveEmails(emails: string[], users: User[]): ResolvedEmails {
+  const usersByEmail = new Map(users.map((user) => [user.email.toLowerCase(), user]))
+  const resolved: ResolvedEmails = { users: [], unknown: [] }
+
+  emails.forEach((email) => {
+    const user = usersByEmail.get(email.toLowerCase())
+    if (user) {
+      resolved.users.push(user)
+    } else {
+      resolved.unknown.push(email)
+    }
+  })
+  return resolved
+}
+
+/**
+ * The roles held by at least one user, so roles can be picked without the `manage roles` permission
+ */
+export function getUserRoles(users: User[]): Role[] {
+  const roles = new Map<number, Role>()
+  users.forEach((user) => user.roles?.forEach((role) => roles.set(role.id, role)))
+  return [...roles.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export function getUsersWithRole(users: User[], roleId: number): User[] {
+  return users.filter((user) => user.roles?.some((role) => role.id === roleId))
+}
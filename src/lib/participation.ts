@@ -0,0 +1,129 @@
+import type { Attendance } from '@/types/attendance'
+import type { Meeting } from '@/types/meeting'
+import type { User } from '@/types/user'
+import type { ZoomPastMeetingParticipant } from '@/types/zoom'
+
+export type ParticipationStatus = 'online' | 'in_person' | 'no_show'
+
+export const PARTICIPATION_STATUS_LABELS: Record<ParticipationStatus, string> = {
+  online: 'Attended online',
+  in_person: 'Attended in person',
+  no_show: 'No-show',
+}
+
+export interface ParticipationRow {
+  user: User
+  status: ParticipationStatus
+  checkedInAt: string | null
+  onlineMinutes: number | null // Summed over every join, null when not seen on Zoom
+}
+
+export interface ParticipationReport {
+  rows: ParticipationRow[]
+  invited: number
+  attended: number
+  counts: Record<ParticipationStatus, number>
+  rate: number // Share of invitees who attended, 0 to 1
+  uninvited: number // People who checked in or joined on Zoom without an invitation
+}
+
+function normalize(value: string | null | undefined): string {
+  return value?.trim().toLowerCase() || ''
+}
+
+function addSeconds(totals: Map<string, number>, key: string, seconds: number) {
+  if (key) totals.set(key, (totals.get(key) || 0) + seconds)
+}
+
+/**
+ * Classifies every invitee of a meeting from its signed check-ins and Zoom's participant report.
+ *
+ * Invitees are matched to check-ins by email and to Zoom participants by email, falling back to
+ * the display name for guests who joined without signing in. Being seen on Zoom counts as online
+ * attendance; a check-in counts as in person, except for online meetings where people can only
+ * have signed in remotely.
+ */
+export function buildParticipationReport(
+  meeting: Meeting,
+  attendances: Attendance[],
+  zoomParticipants: ZoomPastMeetingParticipant[] = [],
+): ParticipationReport {
+  const checkIns = new Map<string, Attendance>()
+  for (const attendance of attendances) {
+    const email = normalize(attendance.email)
+    if (email && !checkIns.has(email)) checkIns.set(email, attendance)
+  }
+
+  const zoomSecondsByEmail = new Map<string, number>()
+  const zoomSecondsByName = new Map<string, number>()
+  for (const participant of zoomParticipants) {
+    addSeconds(zoomSecondsByEmail, normalize(participant.user_email), participant.duration)
+    addSeconds(zoomSecondsByName, normalize(participant.name), participant.duration)
+  }
+
+  const counts: Record<ParticipationStatus, number> = { online: 0, in_person: 0, no_show: 0 }
+  const rows = (meeting.participants || []).map((user): ParticipationRow => {
+    const email = normalize(user.email)
+    const checkIn = checkIns.get(email)
+    const zoomSeconds = zoomSecondsByEmail.get(email) ?? zoomSecondsByName.get(normalize(user.name))
+
+    let status: ParticipationStatus = 'no_show'
+    if (zoomSeconds !== undefined || (checkIn && meeting.type === 'online')) {
+      status = 'online'
+    } else if (checkIn) {
+      status = 'in_person'
+    }
+    counts[status]++
+
+    return {
+      user,
+      status,
+      checkedInAt: checkIn?.created_at || null,
+      onlineMinutes: zoomSeconds === undefined ? null : Math.round(zoomSeconds / 60),
+    }
+  })
+
+  // The organizer hosts the meeting and isn't counted as an uninvited guest
+  const known = [meeting.organizer, ...(meeting.participants || [])]
+  const knownEmails = new Set(known.map((user) => normalize(user.email)))
+  const knownNames = new Set(known.map((user) => normalize(user.name)))
+  const uninvited = new Set<string>()
+  for (const email of checkIns.keys()) {
+    if (!knownEmails.has(email)) uninvited.add(email)
+  }
+  for (const participant of zoomParticipants) {
+    const email = normalize(participant.user_email)
+    const name = normalize(participant.name)
+    if (email ? knownEmails.has(email) : knownNames.has(name)) continue
+    uninvited.add(email || `name:${name}`)
+  }
+
+  const attended = counts.online + counts.in_person
+  return {
+    rows,
+    invited: rows.length,
+    attended,
+    counts,
+    rate: rows.length > 0 ? attended / rows.length : 0,
+    uninvited: uninvited.size,
+  }
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Serializes the report rows as CSV, one invitee per line
+ */
+export function participationToCsv(report: ParticipationReport): string {
+  const header = ['Name', 'Email', 'Status', 'Checked in at', 'Minutes online']
+  const lines = report.rows.map((row) => [
+    row.user.name,
+    row.user.email,
+    PARTICIPATION_STATUS_LABELS[row.status],
+    row.checkedInAt || '',
+    row.onlineMinutes === null ? '' : String(row.onlineMinutes),
+  ])
+  return [header, ...lines].map((line) => line.map(escapeCsvValue).join(',')).join('\r\n')
+}
@@ -0,0 +1,181 @@
+import type { Meeting, RecurrenceRule, RecurrenceScope } from '@/types/meeting'
+import { addDays, getMeetingStart, startOfDay, toDateParam } from '@/lib/calendar'
+
+/**
+ * Upper bound on generated occurrences, matching Zoom's limit for recurring meetings
+ */
+export const MAX_OCCURRENCES = 60
+
+export const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+] as const
+
+/**
+ * Recurrence form state as edited in MeetingForm, before it is turned into a rule
+ */
+export interface RecurrenceFormState {
+  enabled: boolean
+  frequency: RecurrenceRule['frequency']
+  interval: number
+  weekdays: number[]
+  end_type: 'count' | 'until'
+  count: number
+  until: string
+}
+
+export function createRecurrenceFormState(): RecurrenceFormState {
+  return {
+    enabled: false,
+    frequency: 'weekly',
+    interval: 1,
+    weekdays: [],
+    end_type: 'count',
+    count: 4,
+    until: '',
+  }
+}
+
+/**
+ * Converts the recurrence form state to the rule sent to the API, or undefined when disabled
+ */
+export function toRecurrenceRule(state: RecurrenceFormState): RecurrenceRule | undefined {
+  if (!state.enabled) return undefined
+
+  const rule: RecurrenceRule = {
+    frequency: state.frequency,
+    interval: state.interval,
+  }
+
+  if (state.frequency === 'weekly') {
+    rule.weekdays = [...state.weekdays].sort((a, b) => a - b)
+  }
+
+  if (state.end_type === 'until') {
+    rule.until = state.until
+  } else {
+    rule.count = state.count
+  }
+
+  return rule
+}
+
+function withTimeOf(day: Date, time: Date): Date {
+  const d = new Date(day)
+  d.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), 0)
+  return d
+}
+
+/**
+ * Expands a recurrence rule into concrete start times, beginning with the first start.
+ * Weekly rules without weekdays repeat on the start's weekday; monthly rules repeat on the
+ * start's day of month and skip months that don't have it.
+ */
+export function expandRecurrence(
+  start: Date,
+  rule: RecurrenceRule,
+  limit = MAX_OCCURRENCES,
+): Date[] {
+  if (isNaN(start.getTime()) || rule.interval < 1) return []
+
+  const maxCount = Math.min(rule.count ?? limit, limit)
+  const until = rule.until || null
+  const occurrences: Date[] = []
+
+  const accept = (date: Date): boolean => {
+    if (until && toDateParam(date) > until) return false
+    if (date >= start) occurrences.push(date)
+    return occurrences.length < maxCount
+  }
+
+  switch (rule.frequency) {
+    case 'daily': {
+      for (let day = start; accept(day); day = addDays(day, rule.interval));
+      break
+    }
+    case 'weekly': {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [start.getDay()]
+      const weekStart = addDays(startOfDay(start), -start.getDay())
+      for (let week = weekStart; ; week = addDays(week, 7 * rule.interval)) {
+        const days = [...weekdays]
+          .sort((a, b) => a - b)
+          .map((weekday) => withTimeOf(addDays(week, weekday), start))
+        if (!days.every(accept)) break
+      }
+      break
+    }
+    case 'monthly': {
+      const dayOfMonth = start.getDate()
+      for (let offset = 0; ; offset += rule.interval) {
+        const candidate = new Date(start.getFullYear(), start.getMonth() + offset, dayOfMonth)
+        if (candidate.getDate() !== dayOfMonth) {
+          // Month is too short for this day; make sure an until-bound series still terminates
+          if (until && toDateParam(candidate) > until) break
+          continue
+        }
+        if (!accept(withTimeOf(candidate, start))) break
+      }
+      break
+    }
+  }
+
+  return occurrences
+}
+
+/**
+ * The occurrences an edit of `meeting` moves to `start`, with their new start times. Every
+ * occurrence in scope keeps its distance to the edited one, so a series moves as a whole.
+ */
+export function getMovedOccurrences(
+  series: Meeting[],
+  meeting: Meeting,
+  start: Date,
+  scope: RecurrenceScope,
+): { id: number; start: Date }[] {
+  const originalStart = getMeetingStart(meeting).getTime()
+  const offset = start.getTime() - originalStart
+
+  const inScope = series.filter((occurrence) => {
+    if (occurrence.id === meeting.id) return false
+    if (scope === 'all') return true
+    return scope === 'following' && getMeetingStart(occurrence).getTime() > originalStart
+  })
+
+  return [
+    { id: meeting.id, start },
+    ...inScope.map((occurrence) => ({
+      id: occurrence.id,
+      start: new Date(getMeetingStart(occurrence).getTime() + offset),
+    })),
+  ].sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/**
+ * Short human readable description of a rule, e.g. "Every 2 weeks on Mon, Wed, 6 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const units = { daily: 'day', weekly: 'week', monthly: 'month' } as const
+  const unit = units[rule.frequency]
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`
+
+  const weekdays = rule.weekdays || []
+  if (rule.frequency === 'weekly' && weekdays.length > 0) {
+    const labels = WEEKDAY_OPTIONS.filter((option) => weekdays.includes(option.value)).map(
+      (option) => option.label,
+    )
+    text += ` on ${labels.join(', ')}`
+  }
+
+  if (rule.count) {
+    text += `, ${rule.count} time${rule.count > 1 ? 's' : ''}`
+  } else if (rule.until) {
+    text += ` until ${new Date(`${rule.until}T00:00`).toLocaleDateString()}`
+  }
+
+  return text
+}
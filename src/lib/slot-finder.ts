@@ -0,0 +1,81 @@
+import type { Meeting } from '@/types/meeting'
+import type { User } from '@/types/user'
+import { addDays, addMinutes, startOfDay } from '@/lib/calendar'
+import { findMeetingConflicts, type ConflictCandidate } from '@/lib/conflicts'
+
+export const SLOT_INTERVAL_MINUTES = 30
+export const MAX_SUGGESTED_SLOTS = 5
+
+/**
+ * What to look for: a meeting of `duration` minutes between `from` and `to` (both days included),
+ * starting and ending within working hours given as minutes after midnight.
+ */
+export interface SlotSearch extends Omit<ConflictCandidate, 'starts' | 'exclude_ids'> {
+  from: Date
+  to: Date
+  workStart: number
+  workEnd: number
+  includeWeekends?: boolean
+}
+
+export interface SuggestedSlot {
+  start: Date
+  available: number // Selected participants without an overlapping meeting
+  busy: User[]
+  unchecked: boolean // Some overlapping meetings don't list participants, so `available` may be high
+}
+
+function isWeekend(day: Date): boolean {
+  return day.getDay() === 0 || day.getDay() === 6
+}
+
+/**
+ * Lists every start on the half hour that fits the working hours, skipping weekends unless asked
+ * and anything that has already begun
+ */
+export function listSlotStarts(search: SlotSearch, now = new Date()): Date[] {
+  const starts: Date[] = []
+  const lastDay = startOfDay(search.to)
+  for (let day = startOfDay(search.from); day <= lastDay; day = addDays(day, 1)) {
+    if (!search.includeWeekends && isWeekend(day)) continue
+    for (
+      let offset = search.workStart;
+      offset + search.duration <= search.workEnd;
+      offset += SLOT_INTERVAL_MINUTES
+    ) {
+      const start = addMinutes(day, offset)
+      if (start > now) starts.push(start)
+    }
+  }
+  return starts
+}
+
+/**
+ * Suggests slots where the room and a Zoom account are free, ranked by how many of the selected
+ * participants are available and then by the earliest start. Slots where everyone is free come
+ * first; the others are only suggested when there aren't enough of those.
+ */
+export function findFreeSlots(
+  search: SlotSearch,
+  meetings: Meeting[],
+  now = new Date(),
+  limit = MAX_SUGGESTED_SLOTS,
+): SuggestedSlot[] {
+  const slots: SuggestedSlot[] = []
+  for (const start of listSlotStarts(search, now)) {
+    const conflicts = findMeetingConflicts({ ...search, starts: [start] }, meetings)
+    if (conflicts.room.length > 0 || conflicts.zoom.length > 0) continue
+
+    const busy = conflicts.participants.map((conflict) => conflict.user)
+    slots.push({
+      start,
+      available: search.participants.length - busy.length,
+      busy,
+      unchecked: conflicts.unchecked.length > 0,
+    })
+  }
+
+  return slots
+    .sort((a, b) => b.available - a.available || a.start.getTime() - b.start.getTime())
+    .slice(0, limit)
+}
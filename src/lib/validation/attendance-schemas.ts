@@ -0,0 +1,13 @@
+import { z } from 'zod'
+
+export const checkInSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255, 'Name is too long'),
+  email: z.string().trim().min(1, 'Email is required').email('Invalid email address'),
+  agency: z.string().trim().min(1, 'Agency is required').max(255, 'Agency is too long'),
+  signature: z
+    .string()
+    .min(1, 'Please sign before checking in')
+    .startsWith('data:image/png;base64,', 'Signature must be a PNG image'),
+})
+
+export type CheckInFormValues = z.infer<typeof checkInSchema>
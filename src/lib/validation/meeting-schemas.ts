@@ -1,4 +1,61 @@
 import { z } from 'zod'
+import { MAX_OCCURRENCES } from '@/lib/recurrence'
+import { toMinutes } from '@/lib/calendar'
+
+// Recurrence rule schema for meeting series
+export const recurrenceSchema = z
+  .object({
+    frequency: z.enum(['daily', 'weekly', 'monthly'], {
+      errorMap: () => ({ message: 'Please select a valid repeat frequency' }),
+    }),
+    interval: z
+      .number({ invalid_type_error: 'Interval must be a number' })
+      .int('Interval must be a whole number')
+      .min(1, 'Interval must be at least 1')
+      .max(99, 'Interval cannot exceed 99'),
+    weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+    until: z
+      .string()
+      .refine((dateStr) => !isNaN(new Date(dateStr).getTime()), 'Please select a valid end date')
+      .optional(),
+    count: z
+      .number({ invalid_type_error: 'Number of occurrences must be a number' })
+      .int('Number of occurrences must be a whole number')
+      .min(2, 'A series needs at least 2 occurrences')
+      .max(MAX_OCCURRENCES, `A series cannot have more than ${MAX_OCCURRENCES} occurrences`)
+      .optional(),
+  })
+  .refine((data) => data.frequency !== 'weekly' || (data.weekdays?.length ?? 0) > 0, {
+    message: 'Select at least one weekday',
+    path: ['weekdays'],
+  })
+  .refine((data) => !!data.until !== !!data.count, {
+    message: 'Choose either an end date or a number of occurrences',
+    path: ['until'],
+  })
+
+// Zoom options for online and hybrid meetings
+export const zoomOptionsSchema = z
+  .object({
+    account_id: z.number().int().positive('Please select a valid Zoom account').optional(),
+    waiting_room: z.boolean(),
+    join_before_host: z.boolean(),
+    mute_upon_entry: z.boolean(),
+    auto_recording: z.enum(['cloud', 'local', 'none'], {
+      errorMap: () => ({ message: 'Please select a valid recording option' }),
+    }),
+    // Checked as a whole so the error lands on one field rather than one per tag
+    alternative_hosts: z
+      .array(z.string())
+      .refine(
+        (emails) => emails.every((email) => z.string().email().safeParse(email.trim()).success),
+        'Alternative hosts must be valid email addresses',
+      ),
+  })
+  .refine((data) => !(data.waiting_room && data.join_before_host), {
+    message: 'Join before host is not available while the waiting room is on',
+    path: ['join_before_host'],
+  })
 
 // Base meeting validation schema
 export const meetingBaseSchema = z.object({
@@ -48,6 +105,8 @@ export const meetingBaseSchema = z.object({
     .optional()
     .or(z.literal('')),
   participants: z.array(z.number()).optional().default([]),
+  recurrence: recurrenceSchema.optional(),
+  zoom: zoomOptionsSchema.optional(),
 })
 
 // Create meeting schema with conditional validation
@@ -78,10 +137,33 @@ export const createMeetingSchema = meetingBaseSchema
       path: ['password'],
     },
   )
+  .refine((data) => data.type !== 'offline' || !data.zoom, {
+    message: 'Zoom options are not applicable for offline meetings',
+    path: ['zoom'],
+  })
+  .refine(
+    (data) => {
+      // Series must end after the first occurrence
+      if (data.recurrence?.until && data.start_time) {
+        return data.recurrence.until >= data.start_time.slice(0, 10)
+      }
+      return true
+    },
+    {
+      message: 'Series end date must be on or after the first meeting',
+      path: ['recurrence', 'until'],
+    },
+  )
 
 // Update meeting schema (similar to create but may have different rules)
 export const updateMeetingSchema = createMeetingSchema
 
+// Reschedule schema (calendar drag-and-drop) reuses the base date and duration rules
+export const rescheduleMeetingSchema = meetingBaseSchema.pick({
+  start_time: true,
+  duration: true,
+})
+
 // Participant management schema
 export const participantSchema = z.object({
   meeting_id: z.number().positive('Invalid meeting ID'),
@@ -130,9 +212,72 @@ export const meetingQuerySchema = z
     },
   )
 
+// Slot finder search schema; dates come from date inputs and working hours from time inputs
+const MAX_SLOT_SEARCH_DAYS = 31
+
+export const slotSearchSchema = z
+  .object({
+    from: z.string().min(1, 'Start date is required'),
+    to: z.string().min(1, 'End date is required'),
+    work_start: z.string().regex(/^\d{2}:\d{2}$/, 'Start of working hours is required'),
+    work_end: z.string().regex(/^\d{2}:\d{2}$/, 'End of working hours is required'),
+    duration: z
+      .number({ invalid_type_error: 'Duration must be a number' })
+      .min(1, 'Duration must be at least 1 minute')
+      .max(1440, 'Duration cannot exceed 24 hours (1440 minutes)'),
+  })
+  .refine((data) => data.to >= data.from, {
+    message: 'End date must be on or after start date',
+    path: ['to'],
+  })
+  .refine(
+    (data) => {
+      const days = (new Date(data.to).getTime() - new Date(data.from).getTime()) / 86_400_000
+      return days < MAX_SLOT_SEARCH_DAYS
+    },
+    {
+      message: `Search at most ${MAX_SLOT_SEARCH_DAYS} days at a time`,
+      path: ['to'],
+    },
+  )
+  .refine((data) => toMinutes(data.work_end) > toMinutes(data.work_start), {
+    message: 'Working hours must end after they start',
+    path: ['work_end'],
+  })
+  .refine((data) => toMinutes(data.work_end) - toMinutes(data.work_start) >= data.duration, {
+    message: 'The meeting is longer than the working hours',
+    path: ['duration'],
+  })
+
+// Meeting template schema, saved from an existing meeting
+export const meetingTemplateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Template name is required')
+    .max(100, 'Template name must be 100 characters or less'),
+  topic: meetingBaseSchema.shape.topic,
+  scope: z.enum(['shared', 'personal']),
+})
+
+// Saved filter preset schema; names must also be unique per user, which the store checks
+export const filterPresetSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Preset name is required')
+    .max(50, 'Preset name must be 50 characters or less'),
+})
+
 // Type exports for form payloads
 export type CreateMeetingPayload = z.infer<typeof createMeetingSchema>
 export type UpdateMeetingPayload = z.infer<typeof updateMeetingSchema>
+export type RecurrencePayload = z.infer<typeof recurrenceSchema>
+export type ZoomOptionsPayload = z.infer<typeof zoomOptionsSchema>
+export type RescheduleMeetingPayload = z.infer<typeof rescheduleMeetingSchema>
 export type ParticipantPayload = z.infer<typeof participantSchema>
 export type BulkParticipantPayload = z.infer<typeof bulkParticipantSchema>
 export type MeetingQueryParams = z.infer<typeof meetingQuerySchema>
+export type SlotSearchPayload = z.infer<typeof slotSearchSchema>
+export type MeetingTemplatePayload = z.infer<typeof meetingTemplateSchema>
+export type FilterPresetPayload = z.infer<typeof filterPresetSchema>
@@ -0,0 +1,139 @@
+import { getMeetingEnd } from './calendar'
+import type { Meeting, ZoomAutoRecording, ZoomMeetingSettings } from '@/types/meeting'
+import type { ZoomApiMeeting, ZoomConnectionStatus } from '@/types/zoom'
+
+/**
+ * Encodes a Zoom meeting uuid for use as a path segment.
+ *
+ * Uuids are base64 and can contain `/`, `+` and `=`. A single-encoded `/` (`%2F`) is decoded by the
+ * backend router before matching and then no longer fits the route, so uuids containing a slash are
+ * double-encoded, which is also what Zoom requires for uuids that start with `/` or contain `//`.
+ */
+export function encodeZoomUuid(uuid: string): string {
+  const encoded = encodeURIComponent(uuid)
+  return uuid.includes('/') ? encodeURIComponent(encoded) : encoded
+}
+
+export interface ZoomReconciliation {
+  matched: number
+  zoomOnly: ZoomApiMeeting[] // On Zoom, but unknown to the app
+  localOnly: Meeting[] // Online or hybrid meetings whose Zoom meeting is missing
+}
+
+/**
+ * Matches Zoom-side meetings with local meetings by `zoom_id`.
+ *
+ * Zoom only lists meetings that are still scheduled, so local meetings that have already ended
+ * are left out instead of being reported as missing on Zoom.
+ */
+export function reconcileZoomMeetings(
+  zoomMeetings: ZoomApiMeeting[],
+  localMeetings: Meeting[],
+  now = new Date(),
+): ZoomReconciliation {
+  const zoomIds = new Set(zoomMeetings.map((meeting) => meeting.id))
+  const localZoomIds = new Set(
+    localMeetings.flatMap((meeting) =>
+      meeting.zoom_meeting ? [meeting.zoom_meeting.zoom_id] : [],
+    ),
+  )
+
+  const zoomOnly = zoomMeetings.filter((meeting) => !localZoomIds.has(meeting.id))
+  const localOnly = localMeetings.filter(
+    (meeting) =>
+      meeting.type !== 'offline' &&
+      getMeetingEnd(meeting) > now &&
+      (!meeting.zoom_meeting || !zoomIds.has(meeting.zoom_meeting.zoom_id)),
+  )
+
+  return {
+    matched: zoomMeetings.length - zoomOnly.length,
+    zoomOnly,
+    localOnly,
+  }
+}
+
+export const AUTO_RECORDING_OPTIONS: { value: ZoomAutoRecording; label: string }[] = [
+  { value: 'none', label: 'Do not record' },
+  { value: 'cloud', label: 'Record to the cloud' },
+  { value: 'local', label: 'Record on the host computer' },
+]
+
+/**
+ * Zoom options as edited in MeetingForm, before they are turned into meeting settings
+ */
+export interface ZoomOptionsFormState {
+  account_id?: number // Undefined uses the default Zoom account
+  waiting_room: boolean
+  join_before_host: boolean
+  mute_upon_entry: boolean
+  auto_recording: ZoomAutoRecording
+  alternative_hosts: string[]
+}
+
+export function createZoomOptionsState(): ZoomOptionsFormState {
+  return {
+    account_id: undefined,
+    waiting_room: true,
+    join_before_host: false,
+    mute_upon_entry: true,
+    auto_recording: 'none',
+    alternative_hosts: [],
+  }
+}
+
+/**
+ * Converts the Zoom options form state to the settings sent to the API.
+ * Alternative hosts are trimmed, de-duplicated and joined with `;`.
+ */
+export function toZoomMeetingSettings(state: ZoomOptionsFormState): ZoomMeetingSettings {
+  const settings: ZoomMeetingSettings = {
+    waiting_room: state.waiting_room,
+    join_before_host: state.join_before_host,
+    mute_upon_entry: state.mute_upon_entry,
+    auto_recording: state.auto_recording,
+  }
+
+  const hosts = [...new Set(state.alternative_hosts.map((email) => email.trim().toLowerCase()))]
+  const alternativeHosts = hosts.filter(Boolean).join(';')
+  if (alternativeHosts) {
+    settings.alternative_hosts = alternativeHosts
+  }
+
+  return settings
+}
+
+function isZoomConnectionStatus(value: unknown): value is ZoomConnectionStatus {
+  const status = value as ZoomConnectionStatus | null
+  return (
+    typeof status?.success === 'boolean' &&
+    typeof status.message === 'string' &&
+    typeof status.checked_at === 'string' &&
+    (status.last_verified_at === null || typeof status.last_verified_at === 'string')
+  )
+}
+
+/**
+ * Reads the last connection check of each account saved in localStorage, keyed by setting id.
+ * Corrupt data and unusable entries are dropped.
+ */
+export function parseStoredZoomConnections(
+  raw: string | null,
+): Record<number, ZoomConnectionStatus> {
+  if (!raw) return {}
+
+  try {
+    const stored: unknown = JSON.parse(raw)
+    if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return {}
+
+    const statuses: Record<number, ZoomConnectionStatus> = {}
+    for (const [id, status] of Object.entries(stored)) {
+      if (Number.isInteger(Number(id)) && isZoomConnectionStatus(status)) {
+        statuses[Number(id)] = status
+      }
+    }
+    return statuses
+  } catch {
+    return {}
+  }
+}
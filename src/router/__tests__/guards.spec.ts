@@ -7,6 +7,7 @@ import router from '@/router'
 // Mock components to avoid loading real views
 vi.mock('@/views/LoginView.vue', () => ({ default: { template: '<div>Login</div>' } }))
 vi.mock('@/views/DashboardView.vue', () => ({ default: { template: '<div>Dashboard</div>' } }))
+vi.mock('@/views/CheckInView.vue', () => ({ default: { template: '<div>Check-in</div>' } }))
 // ... other mocks if needed
 
 describe('Router Guards', () => {
@@ -50,4 +51,12 @@ describe('Router Guards', () => {
     await router.push({ name: 'login' })
     expect(router.currentRoute.value.name).toBe('dashboard')
   })
+
+  it('allows the public check-in page without authentication', async () => {
+    const authStore = useAuthStore()
+    authStore.token = null
+
+    await router.push({ name: 'checkin', params: { uuid: 'abc-123' } })
+    expect(router.currentRoute.value.name).toBe('checkin')
+  })
 })
@@ -38,6 +38,18 @@ const router = createRouter({
       component: VerifyEmailView,
       meta: { requiresAuth: false },
     },
+    {
+      path: '/checkin/:uuid',
+      name: 'checkin',
+      component: () => import('../views/CheckInView.vue'),
+      meta: { requiresAuth: false },
+    },
+    {
+      path: '/public/calendar',
+      name: 'public-calendar',
+      component: () => import('../views/PublicCalendarView.vue'),
+      meta: { requiresAuth: false },
+    },
     {
       path: '/app',
       component: MainLayout,
@@ -77,7 +89,9 @@ const router = createRouter({
           meta: { requiresPermission: PERMISSIONS.ROLES.MANAGE },
         },
         {
-          path: 'meetings',
+          // The optional id opens that meeting's details over the list, so the list and its
+          // filters stay mounted when the details are closed
+          path: 'meetings/:id(\\d+)?',
           name: 'meetings',
           component: () => import('../views/MeetingsView.vue'),
           meta: { requiresPermission: PERMISSIONS.MEETINGS.VIEW },
@@ -0,0 +1,22 @@
+import api from './api'
+import type { Attendance, CheckInPayload } from '@/types/attendance'
+
+export const attendanceService = {
+  async fetchAttendances(meetingId: number) {
+    return api.get<{ data: Attendance[] }>(`/api/meetings/${meetingId}/attendances`)
+  },
+
+  async exportAttendances(meetingId: number) {
+    return api.get<Blob>(`/api/meetings/${meetingId}/attendances/export`, {
+      responseType: 'blob',
+    })
+  },
+
+  // Public endpoint, used by the self check-in page without a login
+  async checkIn(meetingUuid: string, payload: CheckInPayload) {
+    return api.post<{ message: string }>(
+      `/api/public/meetings/${encodeURIComponent(meetingUuid)}/attendance`,
+      payload,
+    )
+  },
+}
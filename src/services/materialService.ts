@@ -0,0 +1,21 @@
+import api from './api'
+import type { MeetingMaterial } from '@/types/meeting'
+
+export const materialService = {
+  async uploadMaterial(meetingId: number, file: File, onProgress?: (percent: number) => void) {
+    const formData = new FormData()
+    formData.append('file', file)
+    return api.post<{ data: MeetingMaterial }>(`/api/meetings/${meetingId}/materials`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(Math.round((event.loaded * 100) / event.total))
+        }
+      },
+    })
+  },
+
+  async deleteMaterial(materialId: number) {
+    return api.delete(`/api/materials/${materialId}`)
+  },
+}
@@ -1,5 +1,5 @@
 import api from './api'
-import type { Meeting } from '@/types/meeting'
+import type { Meeting, RecurrenceScope } from '@/types/meeting'
 import type {
   CreateMeetingPayload,
   UpdateMeetingPayload,
@@ -24,8 +24,8 @@ export const meetingService = {
     return api.patch<{ data: Meeting }>(`/api/meetings/${id}`, payload)
   },
 
-  async deleteMeeting(id: number) {
-    return api.delete(`/api/meetings/${id}`)
+  async deleteMeeting(id: number, scope?: RecurrenceScope) {
+    return api.delete(`/api/meetings/${id}`, { params: scope ? { scope } : undefined })
   },
 
   async fetchParticipants(meetingId: number) {
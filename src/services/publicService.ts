@@ -0,0 +1,11 @@
+import api from './api'
+import type { PublicCalendarResponse } from '@/types/public'
+
+// Endpoints that don't require a login
+export const publicService = {
+  async fetchCalendar(startDate: string, endDate: string) {
+    return api.get<PublicCalendarResponse>('/api/public/calendar', {
+      params: { start_date: startDate, end_date: endDate },
+    })
+  },
+}
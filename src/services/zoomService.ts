@@ -0,0 +1,43 @@
+import api from './api'
+import { encodeZoomUuid } from '@/lib/zoom'
+import type { ZoomMeeting } from '@/types/meeting'
+import type {
+  ZoomConnectionTestPayload,
+  ZoomMeetingListResponse,
+  ZoomMeetingSummary,
+  ZoomPastMeeting,
+} from '@/types/zoom'
+
+export const zoomService = {
+  // Requests an access token for one account, which fails when its credentials are wrong.
+  // Proposed, see docs/api/zoom.md; 404 until the backend provides it
+  async testConnection(payload: ZoomConnectionTestPayload) {
+    return api.post<{ message: string }>('/api/zoom/accounts/test', payload)
+  },
+
+  // Zoom caps page_size at 300, which covers the scheduled meetings of an account
+  async fetchZoomMeetings() {
+    return api.get<ZoomMeetingListResponse>('/api/zoom/meetings', {
+      params: { page_size: 300 },
+    })
+  },
+
+  async deleteZoomMeeting(zoomId: number) {
+    return api.delete<{ message: string }>('/api/zoom/meetings', { params: { meetingId: zoomId } })
+  },
+
+  // The backend passes Zoom's response through as is, without a `data` wrapper
+  async fetchMeetingSummary(meetingUuid: string) {
+    return api.get<ZoomMeetingSummary>(`/api/zoom/meetings/${encodeZoomUuid(meetingUuid)}/summary`)
+  },
+
+  // Passed through from Zoom without a `data` wrapper, 404 when the meeting never took place
+  async fetchPastMeeting(zoomId: number) {
+    return api.get<ZoomPastMeeting>('/api/zoom/past_meetings', { params: { meetingId: zoomId } })
+  },
+
+  // Pulls status, recordings and summaries from Zoom for when webhooks were missed
+  async syncMeeting(meetingId: number) {
+    return api.get<{ message: string; data: ZoomMeeting }>(`/api/zoom/meetings/${meetingId}/sync`)
+  },
+}
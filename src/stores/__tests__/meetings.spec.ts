@@ -0,0 +1,265 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { AxiosError, AxiosHeaders } from 'axios'
+import { useMeetingsStore, ErrorType } from '../meetings'
+import { meetingService } from '@/services/meetingService'
+import type { Meeting } from '@/types/meeting'
+import type { User } from '@/types/user'
+
+vi.mock('@/services/meetingService', () => ({
+  meetingService: {
+    fetchMeetings: vi.fn(),
+    fetchParticipants: vi.fn(),
+    createMeeting: vi.fn(),
+    updateMeeting: vi.fn(),
+    deleteMeeting: vi.fn(),
+    addParticipant: vi.fn(),
+  },
+}))
+
+function makeMeeting(id: number, startTime: string): Meeting {
+  return { id, topic: `Meeting ${id}`, start_time: startTime, duration: 60 } as Meeting
+}
+
+function makeApiError(status: number, data: Record<string, unknown>) {
+  const headers = new AxiosHeaders()
+  return new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, undefined, {
+    status,
+    statusText: '',
+    data,
+    headers,
+    config: { headers },
+  })
+}
+
+describe('meetings store', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+  })
+
+  describe('rescheduleMeeting', () => {
+    it('moves the meeting right away and keeps the saved version', async () => {
+      const store = useMeetingsStore()
+      store.meetings = [makeMeeting(1, '2025-08-13T02:00:00.000Z')]
+      const saved = makeMeeting(1, '2025-08-14T03:00:00.000Z')
+      vi.mocked(meetingService.updateMeeting).mockImplementation(async () => {
+        // The list shows the new slot while the request is in flight
+        expect(store.meetings[0]!.start_time).toBe('2025-08-14T03:00:00.000Z')
+        return { data: { data: saved } } as Awaited<ReturnType<typeof meetingService.updateMeeting>>
+      })
+
+      await store.rescheduleMeeting(1, new Date('2025-08-14T03:00:00.000Z'), 90)
+
+      expect(store.meetings[0]).toEqual(saved)
+    })
+
+    it('restores the original slot when the server rejects the move', async () => {
+      const store = useMeetingsStore()
+      const original = makeMeeting(1, '2025-08-13T02:00:00.000Z')
+      store.meetings = [original, makeMeeting(2, '2025-08-13T05:00:00.000Z')]
+      vi.mocked(meetingService.updateMeeting).mockRejectedValue(
+        makeApiError(422, { message: 'Invalid', errors: { start_time: ['Room is taken.'] } }),
+      )
+
+      await expect(
+        store.rescheduleMeeting(1, new Date('2025-08-14T03:00:00.000Z'), 90),
+      ).rejects.toBeInstanceOf(AxiosError)
+
+      expect(store.meetings[0]).toEqual(original)
+      expect(store.meetings[0]!.start_time).toBe('2025-08-13T02:00:00.000Z')
+      expect(store.meetings[0]!.duration).toBe(60)
+      expect(store.error?.details?.start_time).toEqual(['Room is taken.'])
+    })
+  })
+
+  describe('fetchAllMeetings', () => {
+    it('applies the list filters that the calendar endpoint ignores', async () => {
+      const store = useMeetingsStore()
+      const aula = { id: 10, name: 'Aula' } as Meeting['location']
+      const calendar = [
+        { ...makeMeeting(1, '2025-08-13T02:00:00.000Z'), type: 'offline', location: aula },
+        { ...makeMeeting(2, '2025-08-13T05:00:00.000Z'), type: 'online', location: null },
+        { ...makeMeeting(3, '2025-08-14T02:00:00.000Z'), type: 'offline', location: null },
+        { ...makeMeeting(4, '2025-08-14T05:00:00.000Z'), topic: 'Budget', type: 'offline' },
+      ] as Meeting[]
+      vi.mocked(meetingService.fetchMeetings).mockResolvedValue({
+        data: { data: calendar },
+      } as Awaited<ReturnType<typeof meetingService.fetchMeetings>>)
+
+      const result = await store.fetchAllMeetings({
+        start_date: '2025-08-13',
+        end_date: '2025-08-14',
+        type: 'offline',
+        topic: 'meeting',
+        location: 'Aula',
+      })
+
+      expect(meetingService.fetchMeetings).toHaveBeenCalledWith(
+        { start_date: '2025-08-13', end_date: '2025-08-14' },
+        '/api/calendar',
+      )
+      expect(result.map((meeting) => meeting.id)).toEqual([1])
+    })
+  })
+
+  describe('findConflicts', () => {
+    const alice = { id: 5, name: 'Alice' } as User
+    const organizer = { id: 9, name: 'Budi' } as User
+    const calendar = [
+      { ...makeMeeting(1, '2025-08-13T02:00:00.000Z'), organizer },
+      { ...makeMeeting(2, '2025-08-13T02:30:00.000Z'), organizer },
+      { ...makeMeeting(3, '2025-08-13T06:00:00.000Z'), organizer },
+    ]
+    const candidate = {
+      starts: [new Date('2025-08-13T02:00:00.000Z')],
+      duration: 60,
+      participants: [alice.id],
+    }
+
+    beforeEach(() => {
+      vi.mocked(meetingService.fetchMeetings).mockResolvedValue({
+        data: { data: calendar },
+      } as Awaited<ReturnType<typeof meetingService.fetchMeetings>>)
+    })
+
+    it('loads the participants of the overlapping meetings only', async () => {
+      const store = useMeetingsStore()
+      vi.mocked(meetingService.fetchParticipants).mockImplementation(
+        async (id) =>
+          ({ data: { data: id === 2 ? [alice] : [] } }) as Awaited<
+            ReturnType<typeof meetingService.fetchParticipants>
+          >,
+      )
+
+      const conflicts = await store.findConflicts(candidate)
+
+      expect(vi.mocked(meetingService.fetchParticipants).mock.calls).toEqual([[1], [2]])
+      expect(conflicts.participants.map((c) => c.meetings.map((m) => m.id))).toEqual([[2]])
+      expect(conflicts.unchecked).toEqual([])
+    })
+
+    it('reports meetings whose participants could not be loaded as unchecked', async () => {
+      const store = useMeetingsStore()
+      vi.mocked(meetingService.fetchParticipants)
+        .mockResolvedValueOnce({ data: { data: [] as User[] } } as Awaited<
+          ReturnType<typeof meetingService.fetchParticipants>
+        >)
+        .mockRejectedValueOnce(makeApiError(403, { message: 'Forbidden' }))
+
+      const conflicts = await store.findConflicts(candidate)
+
+      expect(conflicts.participants).toEqual([])
+      expect(conflicts.unchecked.map((m) => m.id)).toEqual([2])
+    })
+  })
+
+  describe('createMeetingSeries', () => {
+    const payload = {
+      topic: 'Weekly sync',
+      start_time: '2025-08-11T09:00',
+      duration: 60,
+      type: 'offline' as const,
+    }
+    const starts = [new Date(2025, 7, 11, 9, 0), new Date(2025, 7, 18, 9, 0)]
+
+    it('creates each occurrence with its own start time and keeps going after a failure', async () => {
+      const store = useMeetingsStore()
+      vi.mocked(meetingService.createMeeting)
+        .mockRejectedValueOnce(makeApiError(422, { message: 'Room is taken.' }))
+        .mockResolvedValueOnce({} as Awaited<ReturnType<typeof meetingService.createMeeting>>)
+
+      const result = await store.createMeetingSeries(payload, starts)
+
+      expect(vi.mocked(meetingService.createMeeting).mock.calls).toEqual([
+        [{ ...payload, start_time: '2025-08-11T09:00' }],
+        [{ ...payload, start_time: '2025-08-18T09:00' }],
+      ])
+      expect(result.succeeded).toEqual([starts[1]])
+      expect(result.failed.map((failure) => failure.item)).toEqual([starts[0]])
+      expect(store.error).toBeNull()
+    })
+
+    it('reports the first error when no occurrence could be created', async () => {
+      const store = useMeetingsStore()
+      vi.mocked(meetingService.createMeeting).mockRejectedValue(
+        makeApiError(422, { message: 'Invalid', errors: { topic: ['Topic is too long.'] } }),
+      )
+
+      const result = await store.createMeetingSeries(payload, starts)
+
+      expect(result.succeeded).toEqual([])
+      expect(store.error?.type).toBe(ErrorType.VALIDATION)
+      expect(store.error?.details?.topic).toEqual(['Topic is too long.'])
+    })
+  })
+
+  describe('bulk actions', () => {
+    const meetings = [
+      makeMeeting(1, '2025-08-13T02:00:00.000Z'),
+      makeMeeting(2, '2025-08-13T05:00:00.000Z'),
+      makeMeeting(3, '2025-08-14T02:00:00.000Z'),
+    ]
+
+    it('deletes every meeting it can and reports the ones that failed', async () => {
+      const store = useMeetingsStore()
+      store.meetings = [...meetings]
+      store.currentMeeting = meetings[0]!
+      store.pagination.totalItems = 10
+      vi.mocked(meetingService.deleteMeeting).mockImplementation(async (id) => {
+        if (id === 2) throw makeApiError(403, { message: 'Forbidden' })
+        return {} as Awaited<ReturnType<typeof meetingService.deleteMeeting>>
+      })
+      const onProgress = vi.fn()
+
+      const result = await store.bulkDeleteMeetings(meetings, onProgress)
+
+      expect(meetingService.deleteMeeting).toHaveBeenCalledTimes(3)
+      expect(result.succeeded.map((meeting) => meeting.id)).toEqual([1, 3])
+      expect(result.failed.map((failure) => failure.item.id)).toEqual([2])
+      expect(result.failed[0]!.error.type).toBe(ErrorType.PERMISSION)
+      expect(onProgress.mock.calls.map(([done]) => done)).toEqual([1, 2, 3])
+      expect(store.pagination.totalItems).toBe(8)
+      expect(store.meetings.map((meeting) => meeting.id)).toEqual([2])
+      expect(store.currentMeeting).toBeNull()
+    })
+
+    it('moves meetings to the new location one by one', async () => {
+      const store = useMeetingsStore()
+      vi.mocked(meetingService.updateMeeting)
+        .mockResolvedValueOnce({} as Awaited<ReturnType<typeof meetingService.updateMeeting>>)
+        .mockRejectedValueOnce(
+          makeApiError(422, { message: 'Invalid', errors: { location_id: ['Room is taken.'] } }),
+        )
+        .mockResolvedValueOnce({} as Awaited<ReturnType<typeof meetingService.updateMeeting>>)
+
+      const result = await store.bulkChangeLocation(meetings, 4)
+
+      expect(meetingService.updateMeeting).toHaveBeenNthCalledWith(1, 1, { location_id: 4 })
+      expect(meetingService.updateMeeting).toHaveBeenNthCalledWith(3, 3, { location_id: 4 })
+      expect(result.succeeded.map((meeting) => meeting.id)).toEqual([1, 3])
+      expect(result.failed[0]!.item.id).toBe(2)
+      expect(result.failed[0]!.error.details?.location_id).toEqual(['Room is taken.'])
+    })
+
+    it('adds the participant to each meeting and keeps going after a failure', async () => {
+      const store = useMeetingsStore()
+      vi.mocked(meetingService.addParticipant)
+        .mockRejectedValueOnce(makeApiError(422, { message: 'Already invited.' }))
+        .mockResolvedValue({} as Awaited<ReturnType<typeof meetingService.addParticipant>>)
+
+      const result = await store.bulkAddParticipant(meetings, 9)
+
+      expect(vi.mocked(meetingService.addParticipant).mock.calls).toEqual([
+        [1, 9],
+        [2, 9],
+        [3, 9],
+      ])
+      expect(result.succeeded.map((meeting) => meeting.id)).toEqual([2, 3])
+      expect(result.failed.map((failure) => failure.item.id)).toEqual([1])
+      expect(result.failed[0]!.error.message).toBeTruthy()
+      // Failures belong to the result, not to the list behind the dialog
+      expect(store.error).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { ref } from 'vue'
+import { defineStore } from 'pinia'
+import { isApiError } from '@/lib/error-handling'
+import { downloadFile } from '@/lib/utils'
+import { attendanceService } from '@/services/attendanceService'
+import type { Attendance } from '@/types/attendance'
+
+function getFileName(contentDisposition: unknown, fallback: string): string {
+  if (typeof contentDisposition !== 'string') return fallback
+  const match = /filename\*?=(?:UTF-8'')?"?([^";]+)"?/i.exec(contentDisposition)
+  return match?.[1] ? decodeURIComponent(match[1]) : fallback
+}
+
+export const useAttendancesStore = defineStore('attendances', () => {
+  const attendances = ref<Attendance[]>([])
+  const meetingId = ref<number | null>(null)
+  const isLoading = ref(false)
+  const isExporting = ref(false)
+  const error = ref<string | null>(null)
+
+  async function fetchAttendances(id: number) {
+    isLoading.value = true
+    error.value = null
+    if (meetingId.value !== id) attendances.value = []
+    meetingId.value = id
+    try {
+      const response = await attendanceService.fetchAttendances(id)
+      attendances.value = response.data.data
+    } catch (err: unknown) {
+      if (isApiError(err)) {
+        error.value = err.response?.data?.message || 'Failed to fetch attendance.'
+      } else if (err instanceof Error) {
+        error.value = err.message
+      } else {
+        error.value = 'An unknown error occurred.'
+      }
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  // Downloads the server-generated CSV through the authenticated axios instance
+  async function exportAttendances(id: number) {
+    isExporting.value = true
+    try {
+      const response = await attendanceService.exportAttendances(id)
+      const fileName = getFileName(
+        response.headers['content-disposition'],
+        `attendance-meeting-${id}.csv`,
+      )
+      downloadFile(response.data, fileName, 'text/csv')
+    } finally {
+      isExporting.value = false
+    }
+  }
+
+  return {
+    attendances,
+    meetingId,
+    isLoading,
+    isExporting,
+    error,
+    fetchAttendances,
+    exportAttendances,
+  }
+})
@@ -0,0 +1,94 @@
+import { ref, computed, watch } from 'vue'
+import { defineStore } from 'pinia'
+import { useAuthStore } from '@/stores/auth'
+import {
+  createFilterPreset,
+  parseStoredPresets,
+  type MeetingFilterPreset,
+  type RelativeDateRange,
+} from '@/lib/filter-presets'
+import type { MeetingQueryParams } from '@/stores/meetings'
+
+const STORAGE_KEY_PREFIX = 'meetingFilterPresets'
+
+export const useFilterPresetsStore = defineStore('filterPresets', () => {
+  const authStore = useAuthStore()
+
+  const presets = ref<MeetingFilterPreset[]>([])
+  const defaultPresetId = ref<string | null>(null)
+
+  // Presets belong to the signed-in user, so people sharing a browser don't see each other's
+  const storageKey = computed(() =>
+    authStore.user ? `${STORAGE_KEY_PREFIX}:${authStore.user.id}` : null,
+  )
+
+  const defaultPreset = computed(
+    () => presets.value.find((preset) => preset.id === defaultPresetId.value) || null,
+  )
+
+  function loadPresets() {
+    const stored = parseStoredPresets(
+      storageKey.value ? localStorage.getItem(storageKey.value) : null,
+    )
+    presets.value = stored.presets
+    defaultPresetId.value = stored.defaultId
+  }
+
+  function persist() {
+    if (!storageKey.value) return
+    localStorage.setItem(
+      storageKey.value,
+      JSON.stringify({ presets: presets.value, defaultId: defaultPresetId.value }),
+    )
+  }
+
+  function isNameTaken(name: string, exceptId?: string): boolean {
+    const normalized = name.trim().toLowerCase()
+    return presets.value.some(
+      (preset) => preset.id !== exceptId && preset.name.toLowerCase() === normalized,
+    )
+  }
+
+  function savePreset(
+    name: string,
+    params: MeetingQueryParams,
+    dateRange?: RelativeDateRange,
+  ): MeetingFilterPreset {
+    const preset = createFilterPreset(name, params, dateRange)
+    presets.value = [...presets.value, preset]
+    persist()
+    return preset
+  }
+
+  function renamePreset(id: string, name: string) {
+    presets.value = presets.value.map((preset) =>
+      preset.id === id ? { ...preset, name: name.trim() } : preset,
+    )
+    persist()
+  }
+
+  function deletePreset(id: string) {
+    presets.value = presets.value.filter((preset) => preset.id !== id)
+    if (defaultPresetId.value === id) defaultPresetId.value = null
+    persist()
+  }
+
+  // Pass null to stop applying a preset when the meetings page opens
+  function setDefaultPreset(id: string | null) {
+    defaultPresetId.value = id
+    persist()
+  }
+
+  watch(storageKey, loadPresets, { immediate: true })
+
+  return {
+    presets,
+    defaultPresetId,
+    defaultPreset,
+    isNameTaken,
+    savePreset,
+    renamePreset,
+    deletePreset,
+    setDefaultPreset,
+  }
+})
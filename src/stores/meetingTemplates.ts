@@ -0,0 +1,124 @@
+import { ref, computed, watch } from 'vue'
+import { defineStore } from 'pinia'
+import { settingsService } from '@/services/settingsService'
+import { useAuthStore } from '@/stores/auth'
+import { isApiError } from '@/lib/error-handling'
+import { PERMISSIONS } from '@/constants/permissions'
+import {
+  MEETING_TEMPLATE_GROUP,
+  createPersonalTemplate,
+  parseStoredTemplates,
+  parseTemplateSetting,
+  toTemplateSettingPayload,
+  type MeetingTemplate,
+  type MeetingTemplateData,
+} from '@/lib/meeting-templates'
+
+const STORAGE_KEY_PREFIX = 'meetingTemplates'
+
+function byName(a: MeetingTemplate, b: MeetingTemplate): number {
+  return a.name.localeCompare(b.name)
+}
+
+export const useMeetingTemplatesStore = defineStore('meetingTemplates', () => {
+  const authStore = useAuthStore()
+
+  const sharedTemplates = ref<MeetingTemplate[]>([])
+  const personalTemplates = ref<MeetingTemplate[]>([])
+  const isLoading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Shared templates are curated by whoever manages the settings
+  const canManageShared = computed(() => authStore.hasPermission(PERMISSIONS.SETTINGS.MANAGE))
+
+  // Personal templates belong to the signed-in user, so a shared browser keeps them apart
+  const storageKey = computed(() =>
+    authStore.user ? `${STORAGE_KEY_PREFIX}:${authStore.user.id}` : null,
+  )
+
+  const templates = computed(() => [...sharedTemplates.value, ...personalTemplates.value])
+
+  function canDeleteTemplate(template: MeetingTemplate): boolean {
+    return template.scope === 'shared' ? canManageShared.value : true
+  }
+
+  function loadPersonalTemplates() {
+    personalTemplates.value = parseStoredTemplates(
+      storageKey.value ? localStorage.getItem(storageKey.value) : null,
+    ).sort(byName)
+  }
+
+  function persistPersonalTemplates() {
+    if (!storageKey.value) return
+    localStorage.setItem(storageKey.value, JSON.stringify(personalTemplates.value))
+  }
+
+  // Never throws; without shared templates the dialog still offers the personal ones
+  async function fetchTemplates(): Promise<MeetingTemplate[]> {
+    isLoading.value = true
+    error.value = null
+    try {
+      const response = await settingsService.fetchSettingsByGroup(MEETING_TEMPLATE_GROUP)
+      sharedTemplates.value = response.data
+        .map(parseTemplateSetting)
+        .filter((template): template is MeetingTemplate => !!template)
+        .sort(byName)
+    } catch (err: unknown) {
+      sharedTemplates.value = []
+      if (isApiError(err)) {
+        error.value = err.response?.data?.message || 'Failed to load meeting templates.'
+      } else {
+        error.value = 'Failed to load meeting templates.'
+      }
+    } finally {
+      isLoading.value = false
+    }
+    return templates.value
+  }
+
+  async function createTemplate(data: MeetingTemplateData): Promise<MeetingTemplate | null> {
+    if (data.scope === 'personal') {
+      const template = createPersonalTemplate(data)
+      personalTemplates.value = [...personalTemplates.value, template].sort(byName)
+      persistPersonalTemplates()
+      return template
+    }
+
+    const response = await settingsService.createSetting({
+      name: data.name,
+      group: MEETING_TEMPLATE_GROUP,
+      payload: toTemplateSettingPayload(data),
+    })
+    const template = parseTemplateSetting(response.data)
+    if (template) {
+      sharedTemplates.value = [...sharedTemplates.value, template].sort(byName)
+    }
+    return template
+  }
+
+  async function deleteTemplate(template: MeetingTemplate): Promise<void> {
+    if (template.setting_id === null) {
+      personalTemplates.value = personalTemplates.value.filter((item) => item.id !== template.id)
+      persistPersonalTemplates()
+      return
+    }
+
+    await settingsService.deleteSetting(template.setting_id)
+    sharedTemplates.value = sharedTemplates.value.filter((item) => item.id !== template.id)
+  }
+
+  watch(storageKey, loadPersonalTemplates, { immediate: true })
+
+  return {
+    templates,
+    sharedTemplates,
+    personalTemplates,
+    isLoading,
+    error,
+    canManageShared,
+    canDeleteTemplate,
+    fetchTemplates,
+    createTemplate,
+    deleteTemplate,
+  }
+})
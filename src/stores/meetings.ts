@@ -1,8 +1,17 @@
 import { ref } from 'vue'
 import { defineStore } from 'pinia'
 import { isApiError } from '@/lib/error-handling'
+import { addMinutes, toDateParam, toDateTimeLocal } from '@/lib/calendar'
+import {
+  findMeetingConflicts,
+  findOverlappingMeetings,
+  type ConflictCandidate,
+  type MeetingConflicts,
+} from '@/lib/conflicts'
+import { findFreeSlots, type SlotSearch, type SuggestedSlot } from '@/lib/slot-finder'
 import { meetingService } from '@/services/meetingService'
-import type { Meeting } from '@/types/meeting'
+import { zoomService } from '@/services/zoomService'
+import type { Meeting, RecurrenceScope, ZoomMeeting, ZoomMeetingSettings } from '@/types/meeting'
 import type { User } from '@/types/user'
 
 // Enhanced TypeScript interfaces for payloads and responses
@@ -15,7 +24,8 @@ export interface CreateMeetingPayload {
   location_id?: number
   password?: string
   participants?: number[]
-  settings?: Record<string, unknown>
+  zoom_account_id?: number // Proposed, see docs/api/meetings.md; the backend uses the default account
+  settings?: ZoomMeetingSettings
 }
 
 export interface UpdateMeetingPayload {
@@ -25,6 +35,7 @@ export interface UpdateMeetingPayload {
   duration?: number
   location_id?: number
   settings?: Record<string, unknown>
+  scope?: RecurrenceScope // Proposed, see docs/api/meetings.md; for meetings that belong to a series
 }
 
 export interface MeetingQueryParams {
@@ -80,6 +91,27 @@ export interface ErrorState {
   details?: Record<string, string[]>
 }
 
+export type BulkMeetingAction = 'delete' | 'change_location' | 'add_participant'
+
+export interface BulkActionFailure<T = Meeting> {
+  item: T
+  error: ErrorState
+}
+
+export interface BulkActionResult<T = Meeting> {
+  succeeded: T[]
+  failed: BulkActionFailure<T>[]
+}
+
+// The calendar endpoint ignores the list filters, so they are applied to its results instead
+function matchesListFilters(meeting: Meeting, params: MeetingQueryParams): boolean {
+  if (params.type && meeting.type !== params.type) return false
+  if (params.topic && !meeting.topic.toLowerCase().includes(params.topic.toLowerCase())) {
+    return false
+  }
+  return !params.location || meeting.location?.name === params.location
+}
+
 export const useMeetingsStore = defineStore('meetings', () => {
   // State
   const meetings = ref<Meeting[]>([])
@@ -168,36 +200,45 @@ export const useMeetingsStore = defineStore('meetings', () => {
     }
   }
 
+  // Maps query params to the endpoint that serves them
+  function buildMeetingsRequest(params: MeetingQueryParams) {
+    // Determine endpoint based on date parameters
+    const useCalendarEndpoint = !!(params.start_date && params.end_date)
+    const endpoint = useCalendarEndpoint ? '/api/calendar' : '/api/meetings'
+
+    const queryParams: Record<string, string | number> = {}
+
+    if (useCalendarEndpoint) {
+      // Calendar endpoint parameters (no pagination)
+      queryParams.start_date = params.start_date!
+      queryParams.end_date = params.end_date!
+    } else {
+      // Meetings endpoint parameters (with pagination and filters)
+      queryParams.page = params.page || pagination.value.currentPage
+      queryParams.per_page = params.per_page || pagination.value.itemsPerPage
+
+      if (params.start_time) queryParams.start_time = params.start_time
+      if (params.type) queryParams.type = params.type
+      if (params.topic) queryParams.topic = params.topic
+      if (params.location) queryParams.location = params.location
+    }
+
+    return { endpoint, queryParams, useCalendarEndpoint }
+  }
+
   // Enhanced fetchMeetings with pagination and query parameters
   async function fetchMeetings(params: MeetingQueryParams = {}) {
     isLoading.value = true
     error.value = null
 
     try {
-      // Determine endpoint based on date parameters
-      const useCalendarEndpoint = params.start_date && params.end_date
-      const endpoint = useCalendarEndpoint ? '/api/calendar' : '/api/meetings'
-
-      const queryParams: Record<string, string | number> = {}
-
-      if (useCalendarEndpoint) {
-        // Calendar endpoint parameters (no pagination)
-        queryParams.start_date = params.start_date!
-        queryParams.end_date = params.end_date!
-      } else {
-        // Meetings endpoint parameters (with pagination and filters)
-        queryParams.page = params.page || pagination.value.currentPage
-        queryParams.per_page = params.per_page || pagination.value.itemsPerPage
-
-        if (params.start_time) queryParams.start_time = params.start_time
-        if (params.type) queryParams.type = params.type
-        if (params.topic) queryParams.topic = params.topic
-        if (params.location) queryParams.location = params.location
-      }
+      const { endpoint, queryParams, useCalendarEndpoint } = buildMeetingsRequest(params)
 
       const response = await meetingService.fetchMeetings(queryParams, endpoint)
 
-      meetings.value = response.data.data
+      meetings.value = useCalendarEndpoint
+        ? response.data.data.filter((meeting) => matchesListFilters(meeting, params))
+        : response.data.data
 
       // Only update pagination for meetings endpoint (calendar endpoint doesn't have pagination)
       if (!useCalendarEndpoint && response.data.meta) {
@@ -211,6 +252,41 @@ export const useMeetingsStore = defineStore('meetings', () => {
     }
   }
 
+  async function fetchEveryPage(
+    queryParams: Record<string, string | number>,
+    endpoint?: string,
+  ): Promise<Meeting[]> {
+    const firstPage = await meetingService.fetchMeetings(queryParams, endpoint)
+    const allMeetings = [...firstPage.data.data]
+    if (!firstPage.data.meta) return allMeetings
+
+    for (let page = 2; page <= firstPage.data.meta.last_page; page++) {
+      const response = await meetingService.fetchMeetings({ ...queryParams, page }, endpoint)
+      allMeetings.push(...response.data.data)
+    }
+    return allMeetings
+  }
+
+  // Fetches every page matching the query (e.g. for exports) without touching the list state
+  async function fetchAllMeetings(params: MeetingQueryParams = {}): Promise<Meeting[]> {
+    const { endpoint, queryParams, useCalendarEndpoint } = buildMeetingsRequest({
+      ...params,
+      page: 1,
+      per_page: 100,
+    })
+    const allMeetings = await fetchEveryPage(queryParams, endpoint)
+    return useCalendarEndpoint
+      ? allMeetings.filter((meeting) => matchesListFilters(meeting, params))
+      : allMeetings
+  }
+
+  // Every occurrence of a series, also without touching the list state. The `series_id` filter is
+  // proposed (docs/api/meetings.md), so meetings of other series are dropped here as well
+  async function fetchSeriesMeetings(seriesId: string): Promise<Meeting[]> {
+    const occurrences = await fetchEveryPage({ series_id: seriesId, page: 1, per_page: 100 })
+    return occurrences.filter((meeting) => meeting.series_id === seriesId)
+  }
+
   // Enhanced fetchMeeting for single meeting retrieval
   async function fetchMeeting(id: number): Promise<Meeting> {
     isLoading.value = true
@@ -249,6 +325,33 @@ export const useMeetingsStore = defineStore('meetings', () => {
     }
   }
 
+  // The API has no recurring meetings yet, so each occurrence of a series is created with its own
+  // request. Like the bulk actions, a failed occurrence doesn't stop the rest
+  async function createMeetingSeries(
+    meetingData: CreateMeetingPayload,
+    starts: Date[],
+    onProgress?: (done: number) => void,
+  ): Promise<BulkActionResult<Date>> {
+    isLoading.value = true
+    error.value = null
+
+    try {
+      const result = await runBulkAction(
+        starts,
+        (start) =>
+          meetingService.createMeeting({ ...meetingData, start_time: toDateTimeLocal(start) }),
+        onProgress,
+      )
+      // Nothing was created, so the first error explains the whole series (e.g. validation)
+      if (result.succeeded.length === 0 && result.failed[0]) {
+        error.value = result.failed[0].error
+      }
+      return result
+    } finally {
+      isLoading.value = false
+    }
+  }
+
   // Enhanced updateMeeting with proper payload typing
   async function updateMeeting(id: number, meetingData: UpdateMeetingPayload): Promise<Meeting> {
     isLoading.value = true
@@ -275,13 +378,42 @@ export const useMeetingsStore = defineStore('meetings', () => {
     }
   }
 
-  // Enhanced deleteMeeting
-  async function deleteMeeting(id: number): Promise<void> {
+  // Moves a meeting on the calendar optimistically, restoring its old slot if the server rejects it
+  async function rescheduleMeeting(id: number, start: Date, duration: number): Promise<Meeting> {
+    const index = meetings.value.findIndex((m) => m.id === id)
+    const previous = index > -1 ? meetings.value[index]! : null
+
+    if (previous) {
+      meetings.value.splice(index, 1, { ...previous, start_time: start.toISOString(), duration })
+    }
+
+    try {
+      const updatedMeeting = await updateMeeting(id, {
+        start_time: toDateTimeLocal(start),
+        duration,
+      })
+
+      const currentIndex = meetings.value.findIndex((m) => m.id === id)
+      if (currentIndex > -1) {
+        meetings.value.splice(currentIndex, 1, updatedMeeting)
+      }
+      return updatedMeeting
+    } catch (err: unknown) {
+      const currentIndex = meetings.value.findIndex((m) => m.id === id)
+      if (previous && currentIndex > -1) {
+        meetings.value.splice(currentIndex, 1, previous)
+      }
+      throw err
+    }
+  }
+
+  // Enhanced deleteMeeting, with an optional scope for meetings that belong to a series
+  async function deleteMeeting(id: number, scope?: RecurrenceScope): Promise<void> {
     isLoading.value = true
     error.value = null
 
     try {
-      await meetingService.deleteMeeting(id)
+      await meetingService.deleteMeeting(id, scope)
 
       // Note: We no longer optimistic delete from the list here.
 
@@ -300,6 +432,72 @@ export const useMeetingsStore = defineStore('meetings', () => {
     }
   }
 
+  // Refreshes a meeting's Zoom data and patches it into the list and the current meeting
+  async function syncZoomMeeting(id: number): Promise<ZoomMeeting> {
+    const response = await zoomService.syncMeeting(id)
+    const zoomMeeting = response.data.data
+
+    const index = meetings.value.findIndex((m) => m.id === id)
+    if (index > -1) {
+      meetings.value.splice(index, 1, { ...meetings.value[index]!, zoom_meeting: zoomMeeting })
+    }
+    if (currentMeeting.value?.id === id) {
+      currentMeeting.value = { ...currentMeeting.value, zoom_meeting: zoomMeeting }
+    }
+    return zoomMeeting
+  }
+
+  // Looks up the calendar around a candidate slot without touching the list state
+  async function findConflicts(candidate: ConflictCandidate): Promise<MeetingConflicts> {
+    const starts = [...candidate.starts].sort((a, b) => a.getTime() - b.getTime())
+    if (starts.length === 0) return { room: [], participants: [], zoom: [], unchecked: [] }
+
+    const response = await meetingService.fetchMeetings(
+      {
+        start_date: toDateParam(starts[0]!),
+        end_date: toDateParam(addMinutes(starts[starts.length - 1]!, candidate.duration)),
+      },
+      '/api/calendar',
+    )
+
+    const meetings =
+      candidate.participants.length > 0
+        ? await withParticipants(findOverlappingMeetings(candidate, response.data.data))
+        : response.data.data
+    return findMeetingConflicts(candidate, meetings)
+  }
+
+  // Reads the calendar for the whole search window once, also without touching the list state
+  async function findAvailableSlots(search: SlotSearch): Promise<SuggestedSlot[]> {
+    const response = await meetingService.fetchMeetings(
+      { start_date: toDateParam(search.from), end_date: toDateParam(search.to) },
+      '/api/calendar',
+    )
+
+    const meetings =
+      search.participants.length > 0
+        ? await withParticipants(response.data.data)
+        : response.data.data
+    return findFreeSlots(search, meetings)
+  }
+
+  // Calendar results only carry the organizer, so the participants of the meetings a check
+  // depends on are loaded one list per meeting. A meeting whose list can't be loaded is left
+  // without one, which the checks report as unknown instead of free
+  async function withParticipants(calendar: Meeting[]): Promise<Meeting[]> {
+    return Promise.all(
+      calendar.map(async (meeting) => {
+        if (meeting.participants) return meeting
+        try {
+          const response = await meetingService.fetchParticipants(meeting.id)
+          return { ...meeting, participants: response.data.data }
+        } catch {
+          return meeting
+        }
+      }),
+    )
+  }
+
   // Participant management methods
   async function fetchParticipants(meetingId: number): Promise<User[]> {
     isLoadingParticipants.value = true
@@ -335,6 +533,34 @@ export const useMeetingsStore = defineStore('meetings', () => {
     }
   }
 
+  // Invites several users in one batch and refreshes the participants once at the end
+  async function addParticipants(
+    meetingId: number,
+    users: User[],
+    onProgress?: (done: number) => void,
+  ): Promise<BulkActionResult<User>> {
+    isLoadingParticipants.value = true
+    error.value = null
+
+    try {
+      const result = await runBulkAction(
+        users,
+        (user) => meetingService.addParticipant(meetingId, user.id),
+        onProgress,
+      )
+      if (result.succeeded.length > 0) {
+        try {
+          await fetchParticipants(meetingId)
+        } catch {
+          // The error state is set for the dialog; the invitation results still stand
+        }
+      }
+      return result
+    } finally {
+      isLoadingParticipants.value = false
+    }
+  }
+
   async function removeParticipant(meetingId: number, userId: number): Promise<void> {
     isLoadingParticipants.value = true
     error.value = null
@@ -352,6 +578,71 @@ export const useMeetingsStore = defineStore('meetings', () => {
     }
   }
 
+  // Bulk actions run one request at a time, so a failure doesn't stop the rest and every failed
+  // item keeps its own error. Failures never land in the store error behind the dialog
+  async function runBulkAction<T>(
+    targets: T[],
+    action: (target: T) => Promise<unknown>,
+    onProgress?: (done: number) => void,
+  ): Promise<BulkActionResult<T>> {
+    const result: BulkActionResult<T> = { succeeded: [], failed: [] }
+
+    for (const target of targets) {
+      try {
+        await action(target)
+        result.succeeded.push(target)
+      } catch (err: unknown) {
+        result.failed.push({ item: target, error: createErrorState(err) })
+      }
+      onProgress?.(result.succeeded.length + result.failed.length)
+    }
+    return result
+  }
+
+  // Deleted meetings leave the list right away, like a single delete clears the current meeting
+  async function bulkDeleteMeetings(
+    targets: Meeting[],
+    onProgress?: (done: number) => void,
+  ): Promise<BulkActionResult> {
+    const result = await runBulkAction(
+      targets,
+      (meeting) => meetingService.deleteMeeting(meeting.id),
+      onProgress,
+    )
+
+    const deletedIds = new Set(result.succeeded.map((meeting) => meeting.id))
+    meetings.value = meetings.value.filter((meeting) => !deletedIds.has(meeting.id))
+    if (currentMeeting.value && deletedIds.has(currentMeeting.value.id)) {
+      currentMeeting.value = null
+    }
+    pagination.value.totalItems = Math.max(0, pagination.value.totalItems - result.succeeded.length)
+    return result
+  }
+
+  async function bulkChangeLocation(
+    targets: Meeting[],
+    locationId: number,
+    onProgress?: (done: number) => void,
+  ): Promise<BulkActionResult> {
+    return runBulkAction(
+      targets,
+      (meeting) => meetingService.updateMeeting(meeting.id, { location_id: locationId }),
+      onProgress,
+    )
+  }
+
+  async function bulkAddParticipant(
+    targets: Meeting[],
+    userId: number,
+    onProgress?: (done: number) => void,
+  ): Promise<BulkActionResult> {
+    return runBulkAction(
+      targets,
+      (meeting) => meetingService.addParticipant(meeting.id, userId),
+      onProgress,
+    )
+  }
+
   // Utility methods
   function clearError() {
     error.value = null
@@ -409,16 +700,29 @@ export const useMeetingsStore = defineStore('meetings', () => {
 
     // Actions
     fetchMeetings,
+    fetchAllMeetings,
+    fetchSeriesMeetings,
     fetchMeeting,
     createMeeting,
+    createMeetingSeries,
     updateMeeting,
+    rescheduleMeeting,
     deleteMeeting,
+    syncZoomMeeting,
+    findConflicts,
+    findAvailableSlots,
 
     // Participant Management
     fetchParticipants,
     addParticipant,
+    addParticipants,
     removeParticipant,
 
+    // Bulk actions
+    bulkDeleteMeetings,
+    bulkChangeLocation,
+    bulkAddParticipant,
+
     // Utility
     clearError,
     resetState,
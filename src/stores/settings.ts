@@ -1,19 +1,36 @@
 import { ref, computed } from 'vue'
 import { defineStore } from 'pinia'
 import { settingsService } from '@/services/settingsService'
+import { zoomService } from '@/services/zoomService'
 import { type AxiosResponse } from 'axios'
 import { isApiError } from '@/lib/error-handling'
+import { parseStoredZoomConnections } from '@/lib/zoom'
 import type {
   Setting,
   GroupedSettings,
   SettingCreationPayload,
   SettingUpdatePayload,
 } from '../types/settings'
+import type {
+  ZoomConnectionResult,
+  ZoomConnectionStatus,
+  ZoomConnectionTestPayload,
+} from '@/types/zoom'
+
+const ZOOM_CONNECTION_STORAGE_KEY = 'zoomConnectionStatus'
 
 export const useSettingsStore = defineStore('settings', () => {
   const settings = ref<Setting[]>([])
   const isLoading = ref(false)
   const error = ref<string | null>(null)
+  // Keyed by setting id, kept in localStorage so the last check survives a reload
+  const zoomConnectionStatus = ref<Record<number, ZoomConnectionStatus>>(
+    parseStoredZoomConnections(localStorage.getItem(ZOOM_CONNECTION_STORAGE_KEY)),
+  )
+  // Zoom accounts for the meeting dialogs, kept apart from `settings` so an open settings group
+  // isn't replaced
+  const zoomAccounts = ref<Setting[]>([])
+  const isLoadingZoomAccounts = ref(false)
 
   async function fetchSettingsByGroup(group: string): Promise<void> {
     isLoading.value = true
@@ -113,6 +130,68 @@ export const useSettingsStore = defineStore('settings', () => {
     }
   }
 
+  // Never throws; users without access to settings get an empty list and the default account
+  async function fetchZoomAccounts(): Promise<Setting[]> {
+    isLoadingZoomAccounts.value = true
+    try {
+      const response = await settingsService.fetchSettingsByGroup('zoom')
+      zoomAccounts.value = response.data
+    } catch {
+      zoomAccounts.value = []
+    } finally {
+      isLoadingZoomAccounts.value = false
+    }
+    return zoomAccounts.value
+  }
+
+  function recordZoomConnection(settingId: number, result: ZoomConnectionResult) {
+    const checkedAt = new Date().toISOString()
+    const previous = zoomConnectionStatus.value[settingId]
+    zoomConnectionStatus.value = {
+      ...zoomConnectionStatus.value,
+      [settingId]: {
+        ...result,
+        checked_at: checkedAt,
+        last_verified_at: result.success ? checkedAt : previous?.last_verified_at || null,
+      },
+    }
+    localStorage.setItem(ZOOM_CONNECTION_STORAGE_KEY, JSON.stringify(zoomConnectionStatus.value))
+  }
+
+  // Never throws, the outcome is part of the result so callers can show the error detail
+  async function testZoomConnection(
+    payload: ZoomConnectionTestPayload,
+  ): Promise<ZoomConnectionResult> {
+    let result: ZoomConnectionResult
+    try {
+      const response = await zoomService.testConnection(payload)
+      result = { success: true, message: response.data.message || 'Connection successful.' }
+    } catch (err: unknown) {
+      if (isApiError(err) && err.response?.status === 404) {
+        result = {
+          success: false,
+          unsupported: true,
+          message: 'The server cannot test a single Zoom account yet.',
+        }
+      } else if (isApiError(err) && err.response) {
+        result = {
+          success: false,
+          message: err.response.data?.message || 'Zoom rejected the credentials.',
+        }
+      } else if (isApiError(err)) {
+        result = { success: false, message: 'Network error. Please check your connection.' }
+      } else {
+        result = { success: false, message: 'Could not connect to Zoom.' }
+      }
+    }
+
+    // An untested account keeps its last real check
+    if ('setting_id' in payload && !result.unsupported) {
+      recordZoomConnection(payload.setting_id, result)
+    }
+    return result
+  }
+
   // Computed property for grouping settings by their group property
   const groupedSettings = computed<GroupedSettings>(() => {
     return settings.value.reduce((groups, setting) => {
@@ -135,5 +214,11 @@ export const useSettingsStore = defineStore('settings', () => {
     updateSetting,
     createSetting,
     deleteSetting,
+    zoomConnectionStatus,
+    zoomAccounts,
+    isLoadingZoomAccounts,
+    fetchZoomAccounts,
+    testZoomConnection,
+    recordZoomConnection,
   }
 })
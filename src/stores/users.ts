@@ -59,6 +59,18 @@ export const useUsersStore = defineStore('users', () => {
     }
   }
 
+  // Fetches every user (e.g. to resolve roles or emails) without touching the list state
+  async function fetchAllUsers(): Promise<User[]> {
+    const firstPage = await userService.fetchUsers({ page: 1, per_page: 100 })
+    const allUsers = [...firstPage.data.data]
+
+    for (let page = 2; page <= firstPage.data.meta.last_page; page++) {
+      const response = await userService.fetchUsers({ page, per_page: 100 })
+      allUsers.push(...response.data.data)
+    }
+    return allUsers
+  }
+
   function setPage(page: number) {
     pagination.value.currentPage = page
     fetchUsers({ page })
@@ -185,6 +197,7 @@ export const useUsersStore = defineStore('users', () => {
     pagination,
     searchQuery,
     fetchUsers,
+    fetchAllUsers,
     setPage,
     setSearch,
     fetchRoles,
@@ -0,0 +1,17 @@
+export interface Attendance {
+  id: number
+  meeting_id: number
+  name: string
+  email: string
+  agency: string
+  signature: string | null // Image URL or base64 data URI of the signature
+  created_at: string // Check-in time
+  updated_at: string
+}
+
+export interface CheckInPayload {
+  name: string
+  email: string
+  agency: string
+  signature: string // Base64 PNG data URI
+}
@@ -10,15 +10,81 @@ export interface MeetingLocation {
   updated_at: string
 }
 
+export type ZoomMeetingStatus = 'waiting' | 'started' | 'finished'
+
+export interface ZoomRecordingFile {
+  id: string
+  recording_type: string // e.g. shared_screen_with_speaker_view, audio_only, chat_file
+  file_type: string // e.g. MP4, M4A, TRANSCRIPT, CHAT
+  file_extension: string
+  file_size: number // In bytes
+  play_url: string | null
+  download_url: string
+  recording_start: string
+  recording_end: string
+  status: string
+}
+
 export interface ZoomMeeting {
   id: number
+  meeting_id: number
   zoom_id: number
   uuid: string
-  [key: string]: unknown // For other Zoom-specific properties
+  host_id: string
+  join_url: string
+  start_url: string | null
+  password: string | null
+  status: ZoomMeetingStatus | null
+  settings: Record<string, unknown> | null
+  recording_files: ZoomRecordingFile[] | null
+  last_synced_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type ZoomAutoRecording = 'cloud' | 'local' | 'none'
+
+/**
+ * Zoom options sent with a new online or hybrid meeting
+ */
+export interface ZoomMeetingSettings {
+  waiting_room: boolean
+  join_before_host: boolean
+  mute_upon_entry: boolean
+  auto_recording: ZoomAutoRecording
+  alternative_hosts?: string // Semicolon-separated emails, as Zoom expects them
+}
+
+export interface MeetingMaterial {
+  id: number
+  meeting_id: number
+  title: string | null
+  file_name: string
+  mime_type: string
+  size: number // In bytes
+  url: string
+  created_at: string
+  updated_at: string
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly'
+
+/**
+ * Which occurrences of a recurring series an edit or delete applies to
+ */
+export type RecurrenceScope = 'this' | 'following' | 'all'
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number
+  weekdays?: number[] // 0 = Sunday ... 6 = Saturday, weekly series only
+  until?: string // YYYY-MM-DD, inclusive
+  count?: number
 }
 
 export interface Meeting {
   id: number
+  uuid?: string // Public key used for self check-in when there is no Zoom meeting
   organizer: User
   topic: string
   description: string | null
@@ -30,7 +96,11 @@ export interface Meeting {
   host_key: string | null
   location: MeetingLocation | null
   zoom_meeting: ZoomMeeting | null
+  zoom_account_id?: number | null // Proposed, not returned by the backend yet (docs/api/meetings.md)
   participants?: User[]
+  series_id?: string | null // Proposed, not returned by the backend yet (docs/api/meetings.md)
+  recurrence?: RecurrenceRule | null // Proposed, with series_id
+  materials?: MeetingMaterial[]
   created_at: string
   updated_at: string
 }
@@ -0,0 +1,23 @@
+/**
+ * Public endpoints return a safe subset of meeting data. These types are deliberately separate
+ * from `Meeting` so organizer, participant and Zoom credentials can't leak into public pages.
+ */
+export interface PublicMeetingLocation {
+  name: string
+  address: string
+  room_name: string | null
+}
+
+export interface PublicMeeting {
+  id: number
+  topic: string
+  description: string | null
+  start_time: string
+  duration: number
+  type: 'online' | 'offline' | 'hybrid'
+  location: PublicMeetingLocation | null
+}
+
+export interface PublicCalendarResponse {
+  data: PublicMeeting[]
+}
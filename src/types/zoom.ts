@@ -0,0 +1,103 @@
+export interface ZoomSummaryDetail {
+  label: string
+  summary: string
+}
+
+/**
+ * AI Companion meeting summary as returned by Zoom's `GET /meetings/{meetingUuid}/meeting_summary`
+ */
+export interface ZoomMeetingSummary {
+  meeting_host_id: string
+  meeting_host_email: string
+  meeting_uuid: string
+  meeting_id: number
+  meeting_topic: string
+  meeting_start_time: string
+  meeting_end_time: string
+  summary_start_time: string
+  summary_end_time: string
+  summary_created_time: string
+  summary_last_modified_time: string
+  summary_title?: string
+  summary_overview?: string
+  summary_details?: ZoomSummaryDetail[]
+  next_steps?: string[]
+  // Present when the host has edited the summary in Zoom, and takes precedence over the original
+  edited_summary?: {
+    summary_overview?: string
+    summary_details?: string
+    next_steps?: string[]
+  }
+}
+
+/**
+ * A meeting as listed by Zoom's `GET /users/{userId}/meetings`, passed through by `/api/zoom/meetings`
+ */
+export interface ZoomApiMeeting {
+  uuid: string
+  id: number
+  host_id: string
+  topic: string
+  type: number // 1 instant, 2 scheduled, 3 recurring without fixed time, 8 recurring
+  start_time?: string
+  duration?: number
+  timezone?: string
+  created_at: string
+  join_url: string
+}
+
+export interface ZoomMeetingListResponse {
+  page_size: number
+  total_records: number
+  next_page_token?: string
+  meetings: ZoomApiMeeting[]
+}
+
+/**
+ * Either a saved Zoom account, or credentials that have not been saved yet
+ */
+export type ZoomConnectionTestPayload =
+  | { setting_id: number }
+  | { client_id: string; client_secret: string; account_id: string }
+
+export interface ZoomConnectionResult {
+  success: boolean
+  message: string
+  unsupported?: boolean // The backend can't test a single account yet, so nothing was checked
+}
+
+export interface ZoomConnectionStatus extends ZoomConnectionResult {
+  checked_at: string
+  last_verified_at: string | null
+}
+
+/**
+ * One join of a past meeting; people who rejoin appear once per join
+ */
+export interface ZoomPastMeetingParticipant {
+  id?: string
+  name: string
+  user_email?: string // Empty for guests who joined without signing in
+  join_time: string
+  leave_time: string
+  duration: number // In seconds
+}
+
+/**
+ * Zoom's `GET /past_meetings/{meetingId}` details with the participant report appended by the
+ * backend. For a recurring Zoom meeting this is the most recent instance.
+ */
+export interface ZoomPastMeeting {
+  uuid: string
+  id: number
+  host_id: string
+  topic: string
+  user_name: string
+  user_email: string
+  start_time: string
+  end_time: string
+  duration: number // In minutes
+  total_minutes: number
+  participants_count: number
+  participants?: ZoomPastMeetingParticipant[] // Proposed, not returned by the backend yet
+}
@@ -1,7 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { ref, computed } from 'vue'
+import { flushPromises, shallowMount } from '@vue/test-utils'
+import { createTestingPinia } from '@pinia/testing'
+import { createMemoryHistory, createRouter } from 'vue-router'
 import type { MeetingQueryParams } from '@/stores/meetings'
+import type { Meeting } from '@/types/meeting'
 import debounce from 'lodash-es/debounce'
+import MeetingsView from '@/views/MeetingsView.vue'
+import MeetingTable from '@/components/meetings/MeetingTable.vue'
+import MeetingCalendar from '@/components/meetings/MeetingCalendar.vue'
+import MeetingBulkActionsBar from '@/components/meetings/MeetingBulkActionsBar.vue'
+import { Tabs } from '@/components/ui/tabs'
 
 // Extract the logic functions to test them in isolation
 function createBuildQueryParams(
@@ -1202,3 +1211,57 @@ describe('MeetingsView Type Filter Logic', () => {
     expect(hasActiveFilters.value).toBe(false)
   })
 })
+
+describe('MeetingsView Bulk Selection', () => {
+  const meeting = {
+    id: 1,
+    topic: 'Weekly Sync',
+    start_time: '2025-08-04T02:00:00Z',
+    duration: 60,
+    type: 'online',
+  } as Meeting
+
+  async function mountView() {
+    const router = createRouter({
+      history: createMemoryHistory(),
+      routes: [{ path: '/app/meetings/:id(\\d+)?', name: 'meetings', component: MeetingsView }],
+    })
+    await router.push('/app/meetings')
+
+    const wrapper = shallowMount(MeetingsView, {
+      global: {
+        plugins: [
+          router,
+          createTestingPinia({
+            createSpy: vi.fn,
+            initialState: { meetings: { meetings: [meeting] } },
+          }),
+        ],
+      },
+    })
+    await flushPromises()
+    return wrapper
+  }
+
+  it('keeps the table next to the bulk actions once a row is selected', async () => {
+    const wrapper = await mountView()
+
+    wrapper.findComponent(MeetingTable).vm.$emit('toggle-select', meeting, true)
+    await flushPromises()
+
+    expect(wrapper.findComponent(MeetingBulkActionsBar).exists()).toBe(true)
+    expect(wrapper.findComponent(MeetingTable).exists()).toBe(true)
+  })
+
+  it('shows neither the table nor the bulk actions in calendar view', async () => {
+    const wrapper = await mountView()
+    wrapper.findComponent(MeetingTable).vm.$emit('toggle-select', meeting, true)
+
+    wrapper.findComponent(Tabs).vm.$emit('update:modelValue', 'calendar')
+    await flushPromises()
+
+    expect(wrapper.findComponent(MeetingCalendar).exists()).toBe(true)
+    expect(wrapper.findComponent(MeetingTable).exists()).toBe(false)
+    expect(wrapper.findComponent(MeetingBulkActionsBar).exists()).toBe(false)
+  })
+})